@@ -1,7 +1,7 @@
+import { StravaActivity } from '@endu/shared/types';
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
 
-import { StravaActivity } from '../types';
 import { RoutePreview } from './RoutePreview';
 
 interface ActivityTileProps {
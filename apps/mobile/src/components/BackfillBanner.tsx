@@ -0,0 +1,150 @@
+import { StravaBackfillProgress } from '@endu/shared/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { getStravaBackfill, startStravaBackfill } from '../services/firebase';
+
+// The backfill job advances every 15 minutes, so polling faster shows nothing new
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface BackfillBannerProps {
+  onImported?: () => void; // Called when newly imported activities were stored
+}
+
+const isActive = (backfill: StravaBackfillProgress | null) =>
+  backfill?.status === 'pending' || backfill?.status === 'running';
+
+/**
+ * Shows the Strava history import while it runs, and offers to start or retry it
+ * Renders nothing once the import has completed
+ */
+export const BackfillBanner: React.FC<BackfillBannerProps> = ({ onImported }) => {
+  const [backfill, setBackfill] = useState<StravaBackfillProgress | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const storedRef = useRef<number | undefined>(undefined);
+
+  const applyBackfill = (next: StravaBackfillProgress | null) => {
+    if (storedRef.current !== undefined && next && next.activitiesStored !== storedRef.current) {
+      onImported?.();
+    }
+    storedRef.current = next?.activitiesStored;
+    setBackfill(next);
+  };
+
+  const loadBackfill = async () => {
+    try {
+      const response = await getStravaBackfill();
+      applyBackfill(response.backfill);
+    } catch (err) {
+      console.error('Error loading Strava history import:', err);
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    loadBackfill();
+  }, []);
+
+  // Poll while the import runs
+  useEffect(() => {
+    if (!isActive(backfill)) return;
+    const interval = setInterval(loadBackfill, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [backfill?.status]);
+
+  const handleStart = async () => {
+    try {
+      setStarting(true);
+      const response = await startStravaBackfill();
+      applyBackfill(response.backfill);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to import your Strava history. Please try again.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (!loaded || backfill?.status === 'completed') {
+    return null;
+  }
+
+  if (backfill && isActive(backfill)) {
+    const percent = Math.round(backfill.progress * 100);
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Importing your Strava history · {percent}%</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${percent}%` }]} />
+        </View>
+        <Text style={styles.subtitle}>
+          {backfill.activitiesFetched} activities imported
+          {backfill.lastActivityDate &&
+            ` · up to ${new Date(backfill.lastActivityDate).toLocaleDateString()}`}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {backfill ? 'History import stopped' : 'Import your Strava history'}
+      </Text>
+      <Text style={styles.subtitle}>
+        {backfill?.error ?? 'Earn XP for every activity you have ever recorded'}
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, starting && styles.buttonDisabled]}
+        onPress={handleStart}
+        disabled={starting}
+      >
+        <Text style={styles.buttonText}>{backfill ? 'Retry' : 'Import'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  subtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#666',
+  },
+  progressTrack: {
+    marginTop: 8,
+    height: 6,
+    backgroundColor: '#eee',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#000',
+  },
+  button: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+    backgroundColor: '#000',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
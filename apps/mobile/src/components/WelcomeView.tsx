@@ -1,10 +1,9 @@
+import { ExchangeCodeResponse } from '@endu/shared/types';
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
 
-import { StravaAuthData } from '../types';
-
 interface WelcomeViewProps {
-  stravaData: StravaAuthData;
+  stravaData: ExchangeCodeResponse;
 }
 
 export const WelcomeView: React.FC<WelcomeViewProps> = ({ stravaData }) => {
@@ -3,3 +3,4 @@ export { WelcomeView } from './WelcomeView';
 export { AuthButton } from './AuthButton';
 export { ActivityTile } from './ActivityTile';
 export { RoutePreview } from './RoutePreview';
+export { BackfillBanner } from './BackfillBanner';
@@ -1,10 +1,10 @@
+import { AuthContextType } from '@endu/shared/types';
 import { onAuthStateChanged, User } from 'firebase/auth';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 
 import { auth } from '../../firebaseConfig';
-import { AuthContextType } from '../types';
 
-const AuthContext = createContext<AuthContextType>({
+const AuthContext = createContext<AuthContextType<User>>({
   user: null,
   loading: true,
   isAuthenticated: false,
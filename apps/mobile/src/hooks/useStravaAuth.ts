@@ -1,3 +1,4 @@
+import { ExchangeCodeResponse, MockStravaOAuthResponse } from '@endu/shared/types';
 import { AuthSessionResult, useAuthRequest } from 'expo-auth-session';
 import * as WebBrowser from 'expo-web-browser';
 import { useEffect, useState } from 'react';
@@ -6,7 +7,6 @@ import { STRAVA_DISCOVERY } from '../constants/config';
 import { getCurrentUser } from '../services/auth';
 import { exchangeStravaCode, getUserProfile } from '../services/firebase';
 import { createStravaAuthRequest } from '../services/strava';
-import { MockStravaOAuthResponse, StravaAuthData } from '../types';
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -21,7 +21,7 @@ const REQUIRED_SCOPE = 'read,activity:read_all';
 
 export const useStravaAuth = () => {
   const [isLoading, setIsLoading] = useState(true);
-  const [stravaData, setStravaData] = useState<StravaAuthData | null>(null);
+  const [stravaData, setStravaData] = useState<ExchangeCodeResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [checkedProfile, setCheckedProfile] = useState(false);
 
@@ -53,7 +53,7 @@ export const useStravaAuth = () => {
 
         if (profile.stravaConnected && profile.stravaFirstname) {
           console.log('✅ Strava already connected for:', profile.stravaFirstname);
-          // Create a mock StravaAuthData to indicate connection
+          // Create a mock ExchangeCodeResponse to indicate connection
           setStravaData({
             status: 'success',
             data: {
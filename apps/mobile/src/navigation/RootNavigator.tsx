@@ -10,12 +10,14 @@ import { getUserProfile } from '../services/firebase';
 /**
  * RootNavigator handles auth-based routing
  * Shows AuthScreen if user is not authenticated
- * Shows StravaConnectScreen if user is authenticated but Strava not connected
+ * Shows StravaConnectScreen if user is authenticated but Strava not connected,
+ * noting when access was revoked from Strava's settings
  * Shows HomeScreen if user is authenticated and Strava connected
  */
 export const RootNavigator: React.FC = () => {
   const { user, loading: authLoading } = useAuth();
   const [stravaConnected, setStravaConnected] = useState<boolean | null>(null);
+  const [stravaRevoked, setStravaRevoked] = useState(false);
   const [checkingStrava, setCheckingStrava] = useState(true);
   const appState = useRef(AppState.currentState);
 
@@ -49,6 +51,7 @@ export const RootNavigator: React.FC = () => {
     try {
       const profile = await getUserProfile();
       setStravaConnected(profile.profile.stravaConnected);
+      setStravaRevoked(profile.profile.stravaDisconnectReason === 'revoked');
     } catch (error) {
       console.error('Error checking Strava connection:', error);
       setStravaConnected(false);
@@ -72,7 +75,7 @@ export const RootNavigator: React.FC = () => {
   }
 
   if (!stravaConnected) {
-    return <StravaConnectScreen />;
+    return <StravaConnectScreen accessRevoked={stravaRevoked} />;
   }
 
   return <HomeScreen />;
@@ -1,19 +1,37 @@
+import {
+  CharacterAttributes,
+  DailyXPStatus,
+  GameProfile,
+  QuestsResponse,
+  UserProfile,
+  XPLedgerEntryResponse,
+} from '@endu/shared/types';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useAuth } from '../contexts/AuthContext';
 import { signOut } from '../services/auth';
-import { getGameProfile, getUserProfile } from '../services/firebase';
-import { GameProfile, UserProfile } from '../types';
+import { getGameProfile, getQuests, getUserProfile, getXPHistory } from '../services/firebase';
 import { JournalScreen } from './JournalScreen';
 
 type TabType = 'hero' | 'journal';
 
+const ATTRIBUTE_LABELS: { key: keyof CharacterAttributes; label: string }[] = [
+  { key: 'endurance', label: 'Endurance' },
+  { key: 'strength', label: 'Strength' },
+  { key: 'speed', label: 'Speed' },
+  { key: 'agility', label: 'Agility' },
+  { key: 'climbing', label: 'Climbing' },
+];
+
 export const HomeScreen: React.FC = () => {
   const { user } = useAuth();
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [gameProfile, setGameProfile] = useState<GameProfile | null>(null);
+  const [dailyXP, setDailyXP] = useState<DailyXPStatus | null>(null);
+  const [xpHistory, setXPHistory] = useState<XPLedgerEntryResponse[]>([]);
+  const [quests, setQuests] = useState<QuestsResponse | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('hero');
   const [loading, setLoading] = useState(true);
 
@@ -30,6 +48,12 @@ export const HomeScreen: React.FC = () => {
       if (profile.stravaConnected) {
         const game = await getGameProfile(useCache);
         setGameProfile(game.game);
+        setDailyXP(game.dailyXP ?? null);
+
+        const history = await getXPHistory(undefined, 5);
+        setXPHistory(history.entries);
+
+        setQuests(await getQuests());
       }
     } catch (err) {
       console.error('Error loading data:', err);
@@ -85,6 +109,11 @@ export const HomeScreen: React.FC = () => {
                 <Text style={styles.badgeText}>🔥 {gameProfile.streakCount}d</Text>
               </View>
             )}
+            {!!gameProfile.streakFreezes && (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>❄️ {gameProfile.streakFreezes}</Text>
+              </View>
+            )}
           </View>
           <View style={styles.progressBar}>
             <View
@@ -97,6 +126,61 @@ export const HomeScreen: React.FC = () => {
           <Text style={styles.xpText}>
             {gameProfile.currentLevelXP} / {gameProfile.nextLevelXP} XP
           </Text>
+          {dailyXP && (
+            <Text style={styles.xpText}>
+              Today: {dailyXP.earned} XP ·{' '}
+              {dailyXP.remaining > 0 ? `${dailyXP.remaining} XP left` : 'daily limit reached'}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {/* Attributes */}
+      {gameProfile && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Attributes</Text>
+          {ATTRIBUTE_LABELS.map(({ key, label }) => (
+            <View key={key} style={styles.attributeRow}>
+              <Text style={styles.attributeLabel}>{label}</Text>
+              <Text style={styles.attributeValue}>{gameProfile.attributes?.[key] ?? 0}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Quests */}
+      {quests && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Quests</Text>
+          {[...quests.daily.quests, ...quests.weekly.quests].map((quest) => (
+            <View key={quest.questId} style={styles.attributeRow}>
+              <Text style={styles.attributeLabel} numberOfLines={1}>
+                {quest.completed ? '✅ ' : ''}
+                {quest.title}
+              </Text>
+              <Text style={styles.attributeValue}>
+                {Math.floor((quest.progress / quest.target) * 100)}%
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Recent XP */}
+      {xpHistory.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Recent XP</Text>
+          {xpHistory.map((entry) => (
+            <View key={entry.id} style={styles.attributeRow}>
+              <Text style={styles.attributeLabel} numberOfLines={1}>
+                {entry.description}
+              </Text>
+              <Text style={styles.attributeValue}>
+                {entry.amount > 0 ? '+' : ''}
+                {entry.amount} XP
+              </Text>
+            </View>
+          ))}
         </View>
       )}
 
@@ -265,6 +349,22 @@ const styles = StyleSheet.create({
     color: '#999',
     fontStyle: 'italic',
   },
+  attributeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  attributeLabel: {
+    fontSize: 14,
+    color: '#000',
+  },
+  attributeValue: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#000',
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1,3 +1,4 @@
+import { StravaActivity } from '@endu/shared/types';
 import React, { useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -11,9 +12,8 @@ import {
   View,
 } from 'react-native';
 
-import { ActivityTile } from '../components';
+import { ActivityTile, BackfillBanner } from '../components';
 import { getUserActivities, syncStravaActivities } from '../services/firebase';
-import { StravaActivity } from '../types';
 
 interface JournalScreenProps {
   onSyncComplete?: () => void;
@@ -24,24 +24,20 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
-  const [page, setPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
 
   useEffect(() => {
     loadActivities();
   }, []);
 
-  const loadActivities = async (resetPagination = true, useCache = true) => {
+  const loadActivities = async (useCache = true) => {
     try {
       setLoading(true);
-      const response = await getUserActivities(1, 10, useCache);
+      const response = await getUserActivities(undefined, 10, useCache);
       if (response && response.activities) {
         setActivities(response.activities);
-        setHasMore(response.activities.length === 10);
-        if (resetPagination) {
-          setPage(1);
-        }
+        setNextCursor(response.nextCursor);
       }
     } catch (err) {
       console.error('Error loading activities:', err);
@@ -56,7 +52,7 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
       // sync from Strava (this invalidates cache)
       await syncStravaActivities(1, 3);
       // reload activities from Firestore (skip cache to get fresh data)
-      await loadActivities(true, false);
+      await loadActivities(false);
       // notify HomeScreen to refresh stats
       onSyncComplete?.();
     } catch (err) {
@@ -72,7 +68,7 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
       // sync from Strava (this invalidates cache)
       await syncStravaActivities(1, 30);
       // reload activities from Firestore (skip cache to get fresh data)
-      await loadActivities(true, false);
+      await loadActivities(false);
       // notify HomeScreen to refresh stats
       onSyncComplete?.();
     } catch (err) {
@@ -86,7 +82,7 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
     try {
       setRefreshing(true);
       // reload activities from Firestore (skip cache for pull-to-refresh)
-      await loadActivities(true, false);
+      await loadActivities(false);
       // notify HomeScreen to refresh stats
       onSyncComplete?.();
     } catch (err) {
@@ -97,21 +93,15 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
   };
 
   const loadMoreActivities = async () => {
-    if (loadingMore || !hasMore) return;
+    if (loadingMore || !nextCursor) return;
 
     try {
       setLoadingMore(true);
-      const nextPage = page + 1;
-      const response = await getUserActivities(nextPage, 10);
+      const response = await getUserActivities(nextCursor, 10);
 
       if (response && response.activities) {
-        if (response.activities.length > 0) {
-          setActivities([...activities, ...response.activities]);
-          setPage(nextPage);
-          setHasMore(response.activities.length === 10);
-        } else {
-          setHasMore(false);
-        }
+        setActivities([...activities, ...response.activities]);
+        setNextCursor(response.nextCursor);
       }
     } catch (err) {
       console.error('Error loading more activities:', err);
@@ -120,6 +110,13 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
     }
   };
 
+  const handleImported = async () => {
+    // reload activities from Firestore (skip cache to show imported activities)
+    await loadActivities(false);
+    // notify HomeScreen to refresh stats
+    onSyncComplete?.();
+  };
+
   const SkeletonActivityTile = () => {
     const shimmerAnim = useRef(new Animated.Value(0)).current;
 
@@ -203,6 +200,8 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
         <Text style={styles.title}>Journal</Text>
       </View>
 
+      <BackfillBanner onImported={handleImported} />
+
       {activities.length === 0 ? (
         <View style={styles.centerContent}>
           <Text style={styles.emptyText}>No activities yet</Text>
@@ -232,7 +231,7 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
               const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
               const isCloseToBottom =
                 layoutMeasurement.height + contentOffset.y >= contentSize.height - 100;
-              if (isCloseToBottom && hasMore && !loadingMore) {
+              if (isCloseToBottom && nextCursor && !loadingMore) {
                 loadMoreActivities();
               }
             }}
@@ -247,7 +246,7 @@ export const JournalScreen: React.FC<JournalScreenProps> = ({ onSyncComplete })
                 <Text style={styles.loadingMoreText}>Loading more...</Text>
               </View>
             )}
-            {!hasMore && activities.length > 0 && (
+            {!nextCursor && activities.length > 0 && (
               <View style={styles.endMessage}>
                 <Text style={styles.endMessageText}>No more activities</Text>
               </View>
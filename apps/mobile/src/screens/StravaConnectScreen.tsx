@@ -12,7 +12,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useStravaAuth } from '../hooks/useStravaAuth';
 
-export const StravaConnectScreen: React.FC = () => {
+interface StravaConnectScreenProps {
+  accessRevoked?: boolean; // Access was revoked from Strava's settings
+}
+
+export const StravaConnectScreen: React.FC<StravaConnectScreenProps> = ({ accessRevoked }) => {
   const { isLoading, startAuth, isAuthReady } = useStravaAuth();
 
   const handleStravaConnect = async () => {
@@ -32,6 +36,13 @@ export const StravaConnectScreen: React.FC = () => {
           <Text style={styles.subtitle}>Connect Your Activities</Text>
         </View>
 
+        {accessRevoked && (
+          <View style={styles.revokedBanner}>
+            <Text style={styles.revokedTitle}>Strava access was revoked</Text>
+            <Text style={styles.revokedText}>Reconnect to keep syncing your activities.</Text>
+          </View>
+        )}
+
         {/* Main Content */}
         <View style={styles.card}>
           <Text style={styles.cardTitle}>Connect to Strava</Text>
@@ -103,6 +114,23 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#666',
   },
+  revokedBanner: {
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#000',
+    padding: 16,
+    marginBottom: 20,
+  },
+  revokedTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#000',
+    marginBottom: 4,
+  },
+  revokedText: {
+    fontSize: 14,
+    color: '#666',
+  },
   card: {
     backgroundColor: '#fff',
     borderWidth: 2,
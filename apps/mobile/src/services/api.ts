@@ -0,0 +1,9 @@
+import { createApiClient } from '@endu/shared/api';
+import { httpsCallable } from 'firebase/functions';
+
+import { functions } from '../../firebaseConfig';
+
+// Typed methods for every callable, from the contract in @endu/shared
+export const api = createApiClient((name, data) =>
+  httpsCallable(functions, name)(data).then((result) => result.data),
+);
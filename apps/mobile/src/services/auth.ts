@@ -1,13 +1,8 @@
+import { SignUpOrLogInResponse } from '@endu/shared/types';
 import { signOut as firebaseSignOut, signInWithCustomToken } from 'firebase/auth';
-import { httpsCallable } from 'firebase/functions';
 
-import { auth, functions } from '../../firebaseConfig';
-import { SignUpOrLogInResponse } from '../types';
-
-const signUpOrLogInFunction = httpsCallable<
-  { email: string; password: string; displayName?: string },
-  SignUpOrLogInResponse
->(functions, 'signUpOrLogIn');
+import { auth } from '../../firebaseConfig';
+import { api } from './api';
 
 /**
  * Sign up a new user or logs in an existing user
@@ -18,9 +13,8 @@ export const signUpOrLogIn = async (
   displayName?: string,
 ): Promise<SignUpOrLogInResponse> => {
   try {
-    const result = await signUpOrLogInFunction({ email, password, displayName });
-    console.log('Calling signUpOrLogIn, result:', result);
-    const data = result.data;
+    const data = await api.signUpOrLogIn({ email, password, displayName });
+    console.log('Calling signUpOrLogIn, result:', data);
 
     // Sign in with the custom token
     await signInWithCustomToken(auth, data.customToken);
@@ -1,7 +1,6 @@
+import { GameProfile, GetActivitiesResponse, UserProfile } from '@endu/shared/types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-import { GameProfile, StravaActivity, UserProfile } from '../types';
-
 const CACHE_KEYS = {
   ACTIVITIES: 'cached_activities',
   GAME_PROFILE: 'cached_game_profile',
@@ -30,25 +29,25 @@ const isCacheValid = (timestamp: number, duration: number): boolean => {
 };
 
 /**
- * Cache activities
+ * Cache the first page of activities, with the cursor to the next page
  */
-export const cacheActivities = async (activities: StravaActivity[]): Promise<void> => {
+export const cacheActivities = async (firstPage: GetActivitiesResponse): Promise<void> => {
   try {
-    const cacheData: CachedData<StravaActivity[]> = {
-      data: activities,
+    const cacheData: CachedData<GetActivitiesResponse> = {
+      data: firstPage,
       timestamp: Date.now(),
     };
     await AsyncStorage.setItem(CACHE_KEYS.ACTIVITIES, JSON.stringify(cacheData));
-    console.log('✅ Cached activities:', activities.length);
+    console.log('✅ Cached activities:', firstPage.activities.length);
   } catch (error) {
     console.error('Error caching activities:', error);
   }
 };
 
 /**
- * Get cached activities if valid
+ * Get the cached first page of activities if valid
  */
-export const getCachedActivities = async (): Promise<StravaActivity[] | null> => {
+export const getCachedActivities = async (): Promise<GetActivitiesResponse | null> => {
   try {
     const cached = await AsyncStorage.getItem(CACHE_KEYS.ACTIVITIES);
     if (!cached) {
@@ -56,10 +55,15 @@ export const getCachedActivities = async (): Promise<StravaActivity[] | null> =>
       return null;
     }
 
-    const cacheData: CachedData<StravaActivity[]> = JSON.parse(cached);
+    const cacheData: CachedData<GetActivitiesResponse> = JSON.parse(cached);
+
+    // Entries cached before cursor pagination hold a bare activity array
+    if (!Array.isArray(cacheData.data?.activities)) {
+      return null;
+    }
 
     if (isCacheValid(cacheData.timestamp, CACHE_DURATION.ACTIVITIES)) {
-      console.log('✅ Using cached activities:', cacheData.data.length);
+      console.log('✅ Using cached activities:', cacheData.data.activities.length);
       return cacheData.data;
     }
 
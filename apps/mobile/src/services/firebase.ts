@@ -1,13 +1,18 @@
-import { httpsCallable } from 'firebase/functions';
-
-import { auth, functions } from '../../firebaseConfig';
 import {
+  ExchangeCodeResponse,
   GameProfileResponse,
   GetActivitiesResponse,
   ProfileResponse,
-  StravaAuthData,
+  QuestsResponse,
+  StravaBackfillResponse,
+  SuccessResponse,
+  SyncActivitiesResponse,
   UserStats,
-} from '../types';
+  XPHistoryResponse,
+} from '@endu/shared/types';
+
+import { auth } from '../../firebaseConfig';
+import { api } from './api';
 import {
   cacheActivities,
   cacheGameProfile,
@@ -25,21 +30,19 @@ import {
  * @param code - The authorization code from Strava OAuth
  * @returns Promise with Strava auth data
  */
-export const exchangeStravaCode = async (code: string): Promise<StravaAuthData> => {
+export const exchangeStravaCode = async (code: string): Promise<ExchangeCodeResponse> => {
   // Check if user is authenticated
   const currentUser = auth.currentUser;
   if (!currentUser) {
     throw new Error('User must be authenticated to connect Strava');
   }
 
-  const callExchangeCodeFunction = httpsCallable(functions, 'exchangeCodeForToken');
-
   try {
     console.log('📞 Calling Firebase Function with code for user:', currentUser.email);
-    const result = await callExchangeCodeFunction({ code });
+    const data = await api.exchangeCodeForToken({ code });
     console.log('✅ Firebase Function success!');
 
-    return result.data as StravaAuthData;
+    return data;
   } catch (error: any) {
     console.error('❌ Firebase Function error:', error);
 
@@ -70,15 +73,13 @@ export const getUserProfile = async (useCache = true): Promise<ProfileResponse>
     }
   }
 
-  const getUserProfileFunction = httpsCallable<void, ProfileResponse>(functions, 'getUserProfile');
-
   try {
-    const result = await getUserProfileFunction();
+    const data = await api.getUserProfile();
     // Cache the result
-    if (result.data.profile) {
-      await cacheUserProfile(result.data.profile);
+    if (data.profile) {
+      await cacheUserProfile(data.profile);
     }
-    return result.data;
+    return data;
   } catch (error: any) {
     console.error('Error getting user profile:', error);
     throw error;
@@ -89,17 +90,14 @@ export const getUserProfile = async (useCache = true): Promise<ProfileResponse>
  * Updates user profile
  * Requires user to be authenticated
  */
-export const updateUserProfile = async (displayName: string) => {
+export const updateUserProfile = async (displayName: string): Promise<SuccessResponse> => {
   const currentUser = auth.currentUser;
   if (!currentUser) {
     throw new Error('User must be authenticated');
   }
 
-  const updateUserProfileFunction = httpsCallable(functions, 'updateUserProfile');
-
   try {
-    const result = await updateUserProfileFunction({ displayName });
-    return result.data;
+    return await api.updateUserProfile({ displayName });
   } catch (error: any) {
     console.error('Error updating user profile:', error);
     throw error;
@@ -109,12 +107,12 @@ export const updateUserProfile = async (displayName: string) => {
 /**
  * Gets user's stored activities from Firestore with caching
  * Requires user to be authenticated
- * @param page - Page number for pagination
+ * @param cursor - nextCursor from the previous page; omit for the first page
  * @param perPage - Number of activities per page
  * @param useCache - Whether to use cached data if available (default: true)
  */
 export const getUserActivities = async (
-  page = 1,
+  cursor?: string,
   perPage = 30,
   useCache = true,
 ): Promise<GetActivitiesResponse> => {
@@ -124,29 +122,24 @@ export const getUserActivities = async (
   }
 
   // Only use cache for first page
-  if (useCache && page === 1) {
+  if (useCache && !cursor) {
     const cached = await getCachedActivities();
     if (cached) {
-      return { status: 'success', activities: cached };
+      return cached;
     }
   }
 
-  const getUserActivitiesFunction = httpsCallable<
-    { page: number; perPage: number },
-    GetActivitiesResponse
-  >(functions, 'getUserActivities');
-
   try {
     console.log('📞 Fetching user activities from Firestore...');
-    const result = await getUserActivitiesFunction({ page, perPage });
+    const data = await api.getUserActivities({ cursor, perPage });
     console.log('✅ Got activities');
 
     // Cache first page of activities
-    if (page === 1 && result.data.activities) {
-      await cacheActivities(result.data.activities);
+    if (!cursor) {
+      await cacheActivities(data);
     }
 
-    return result.data;
+    return data;
   } catch (error: any) {
     console.error('❌ Error fetching activities:', error);
     throw error;
@@ -161,33 +154,67 @@ export const getUserActivities = async (
 export const syncStravaActivities = async (
   page = 1,
   perPage = 30,
-): Promise<GetActivitiesResponse> => {
+): Promise<SyncActivitiesResponse> => {
   const currentUser = auth.currentUser;
   if (!currentUser) {
     throw new Error('User must be authenticated');
   }
 
-  const getActivitiesFunction = httpsCallable<
-    { page: number; perPage: number },
-    GetActivitiesResponse
-  >(functions, 'fetchStravaActivities');
-
   try {
     console.log('📞 Syncing Strava activities...');
-    const result = await getActivitiesFunction({ page, perPage });
+    const data = await api.fetchStravaActivities({ page, perPage });
     console.log('✅ Synced activities');
 
     // Invalidate caches since we have new data
     await invalidateActivitiesCache();
     await invalidateGameProfileCache();
 
-    return result.data;
+    return data;
   } catch (error: any) {
     console.error('❌ Error syncing activities:', error);
     throw error;
   }
 };
 
+/**
+ * Gets the progress of the user's Strava history import
+ * Requires user to be authenticated
+ */
+export const getStravaBackfill = async (): Promise<StravaBackfillResponse> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated');
+  }
+
+  try {
+    return await api.getStravaBackfill();
+  } catch (error: any) {
+    console.error('❌ Error getting Strava history import:', error);
+    throw error;
+  }
+};
+
+/**
+ * Starts importing the user's full Strava history, or retries a stopped import
+ * Requires user to be authenticated and connected to Strava
+ */
+export const startStravaBackfill = async (): Promise<StravaBackfillResponse> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated');
+  }
+
+  try {
+    console.log('📞 Starting Strava history import...');
+    const data = await api.startStravaBackfill();
+    console.log('✅ Strava history import queued');
+    return data;
+  } catch (error: any) {
+    console.error('❌ Error starting Strava history import:', error);
+    throw error;
+  }
+};
+
 /**
  * Gets user stats from Firestore via user profile
  * Requires user to be authenticated
@@ -216,24 +243,56 @@ export const getGameProfile = async (useCache = true): Promise<GameProfileRespon
     }
   }
 
-  const getGameProfileFunction = httpsCallable<void, GameProfileResponse>(
-    functions,
-    'getGameProfile',
-  );
-
   try {
     console.log('📞 Fetching game profile...');
-    const result = await getGameProfileFunction();
-    console.log('✅ Got game profile:', result.data);
+    const data = await api.getGameProfile();
+    console.log('✅ Got game profile:', data);
 
     // Cache the game profile
-    if (result.data.game) {
-      await cacheGameProfile(result.data.game);
+    if (data.game) {
+      await cacheGameProfile(data.game);
     }
 
-    return result.data as GameProfileResponse;
+    return data;
   } catch (error: any) {
     console.error('❌ Error fetching game profile:', error);
     throw error;
   }
 };
+
+/**
+ * Gets user's XP ledger (newest first) explaining where their XP came from
+ * Requires user to be authenticated
+ * @param cursor - nextCursor from the previous page; omit for the first page
+ * @param perPage - Number of entries per page
+ */
+export const getXPHistory = async (cursor?: string, perPage = 20): Promise<XPHistoryResponse> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated');
+  }
+
+  try {
+    return await api.getXPHistory({ cursor, perPage });
+  } catch (error: any) {
+    console.error('❌ Error fetching XP history:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the user's current daily and weekly quests
+ */
+export const getQuests = async (): Promise<QuestsResponse> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('User must be authenticated');
+  }
+
+  try {
+    return await api.getQuests();
+  } catch (error: any) {
+    console.error('❌ Error fetching quests:', error);
+    throw error;
+  }
+};
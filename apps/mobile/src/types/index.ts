@@ -1,5 +0,0 @@
-export * from './strava.types';
-export * from './auth.types';
-export * from './user.types';
-export * from './stats.types';
-export * from './game.types';
@@ -1,7 +0,0 @@
-export interface UserStats {
-  totalDistance: number;
-  totalMovingTime: number;
-  totalElevationGain: number;
-  activitiesCount: number;
-  lastActivityDate?: any;
-}
@@ -5,11 +5,13 @@ import { RefreshCw } from 'lucide-react';
 import { useEffect, useRef } from 'react';
 
 import { ActivityCard } from '@/components/activities/activity-card';
+import { BackfillStatus } from '@/components/activities/backfill-status';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useActivities } from '@/hooks/use-activities';
 import { useSyncActivities } from '@/hooks/use-mutations';
+import { useUserProfile } from '@/hooks/use-user-profile';
 
 function ActivitySkeleton() {
   return (
@@ -36,6 +38,7 @@ function ActivitySkeleton() {
 
 export default function ActivitiesPage() {
   const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useActivities();
+  const { data: profileData } = useUserProfile();
   const sync = useSyncActivities();
   const sentinelRef = useRef<HTMLDivElement>(null);
 
@@ -68,6 +71,8 @@ export default function ActivitiesPage() {
         </Button>
       </div>
 
+      {profileData?.profile.stravaConnected && <BackfillStatus />}
+
       {isLoading ? (
         <div className="flex flex-col gap-3">
           {Array.from({ length: 6 }).map((_, i) => (
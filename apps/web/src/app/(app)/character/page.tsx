@@ -2,10 +2,13 @@
 
 import type { CharacterTier } from '@endu/shared/types';
 
+import { AttributeGrid } from '@/components/character/attribute-grid';
+import { BadgeGrid } from '@/components/character/badge-grid';
 import { StatsGrid } from '@/components/character/stats-grid';
 import { StreakDisplay, StreakIndicator } from '@/components/character/streak-indicator';
 import { TierBadge } from '@/components/character/tier-badge';
 import { XPBar } from '@/components/character/xp-bar';
+import { XPHistory } from '@/components/game/xp-history';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -65,6 +68,36 @@ export default function CharacterPage() {
             </CardContent>
           </Card>
 
+          {/* XP History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>XP History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <XPHistory />
+            </CardContent>
+          </Card>
+
+          {/* Attributes */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Attributes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AttributeGrid attributes={game.attributes} />
+            </CardContent>
+          </Card>
+
+          {/* Achievements */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Achievements</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BadgeGrid />
+            </CardContent>
+          </Card>
+
           {/* Tier progress */}
           <Card>
             <CardHeader>
@@ -99,7 +132,12 @@ export default function CharacterPage() {
             </CardHeader>
             <CardContent>
               {game.streakCount > 0 ? (
-                <StreakDisplay count={game.streakCount} active={game.streakActive} />
+                <StreakDisplay
+                  count={game.streakCount}
+                  active={game.streakActive}
+                  freezes={game.streakFreezes}
+                  freezeHistory={game.streakFreezeHistory}
+                />
               ) : (
                 <p className="text-muted-foreground text-sm">
                   Complete an activity to start your streak
@@ -5,12 +5,14 @@ import { ArrowRight, RefreshCw } from 'lucide-react';
 import Link from 'next/link';
 
 import { ActivityCard } from '@/components/activities/activity-card';
+import { DailyXP } from '@/components/character/daily-xp';
 import { StatsGrid } from '@/components/character/stats-grid';
 import { StreakIndicator } from '@/components/character/streak-indicator';
 import { TierBadge } from '@/components/character/tier-badge';
 import { XPBar } from '@/components/character/xp-bar';
+import { QuestList } from '@/components/game/quest-list';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useRecentActivities } from '@/hooks/use-activities';
 import { useGameProfile } from '@/hooks/use-game-profile';
@@ -54,6 +56,7 @@ export default function DashboardPage() {
   const sync = useSyncActivities();
 
   const profile = profileData?.profile;
+  const stravaRevoked = profile?.stravaDisconnectReason === 'revoked';
   const game = gameData?.game;
   const recentActivities: StravaActivity[] = recentData?.activities ?? [];
 
@@ -91,6 +94,19 @@ export default function DashboardPage() {
               </span>
             </div>
             <XPBar currentXP={game.currentLevelXP} nextLevelXP={game.nextLevelXP} />
+            {gameData?.dailyXP && <DailyXP status={gameData.dailyXP} />}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Quests */}
+      {profile?.stravaConnected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Quests</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <QuestList />
           </CardContent>
         </Card>
       )}
@@ -103,11 +119,17 @@ export default function DashboardPage() {
         <Card>
           <CardContent className="flex items-center justify-between p-4">
             <div>
-              <p className="font-medium">Connect Strava</p>
-              <p className="text-muted-foreground text-sm">Sync your activities to earn XP</p>
+              <p className="font-medium">
+                {stravaRevoked ? 'Strava access was revoked' : 'Connect Strava'}
+              </p>
+              <p className="text-muted-foreground text-sm">
+                {stravaRevoked
+                  ? 'Reconnect to keep syncing your activities'
+                  : 'Sync your activities to earn XP'}
+              </p>
             </div>
             <Button asChild>
-              <Link href="/strava/connect">Connect</Link>
+              <Link href="/strava/connect">{stravaRevoked ? 'Reconnect' : 'Connect'}</Link>
             </Button>
           </CardContent>
         </Card>
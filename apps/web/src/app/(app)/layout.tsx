@@ -4,8 +4,10 @@ import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 
 import { DevToolbar } from '@/components/dev/dev-toolbar';
+import { AchievementUnlockModal } from '@/components/game/achievement-unlock-modal';
 import { LevelUpModal } from '@/components/game/level-up-modal';
 import { Navbar } from '@/components/layout/navbar';
+import { useAchievements } from '@/hooks/use-achievements';
 import { useAuth } from '@/hooks/use-auth';
 import { useGameProfile } from '@/hooks/use-game-profile';
 import { Providers } from '@/lib/providers';
@@ -15,6 +17,7 @@ const isDev = process.env.NODE_ENV === 'development';
 function AppGuard({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, loading } = useAuth();
   const { data: gameData } = useGameProfile();
+  const { data: achievementsData } = useAchievements();
   const router = useRouter();
 
   useEffect(() => {
@@ -37,6 +40,7 @@ function AppGuard({ children }: { children: React.ReactNode }) {
       <Navbar />
       <main className="mx-auto w-full max-w-5xl flex-1 px-4 py-6">{children}</main>
       <LevelUpModal game={gameData?.game} />
+      <AchievementUnlockModal achievements={achievementsData?.achievements} />
       {isDev && <DevToolbar />}
     </>
   );
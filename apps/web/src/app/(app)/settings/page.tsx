@@ -1,5 +1,6 @@
 'use client';
 
+import { DISPLAY_NAME_MAX_LENGTH, PROFILE_RANGES } from '@endu/shared/schemas';
 import { standardSchemaResolver } from '@hookform/resolvers/standard-schema';
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
@@ -19,21 +20,71 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { useDeleteAccount, useDisconnectStrava, useUpdateProfile } from '@/hooks/use-mutations';
+import {
+  useDeleteAccount,
+  useDisconnectStrava,
+  useRecomputeGameProfile,
+  useUpdateProfile,
+} from '@/hooks/use-mutations';
 import { useUserProfile } from '@/hooks/use-user-profile';
 
+const { MAX_HEART_RATE, RESTING_HEART_RATE, FTP } = PROFILE_RANGES;
+
 const profileSchema = z.object({
-  displayName: z.string().min(1, 'Display name is required'),
+  displayName: z
+    .string()
+    .min(1, 'Display name is required')
+    .max(
+      DISPLAY_NAME_MAX_LENGTH,
+      `Display name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters`,
+    ),
 });
 
 type ProfileValues = z.infer<typeof profileSchema>;
 
+const trainingSchema = z
+  .object({
+    maxHeartRate: z
+      .number('Enter your max heart rate')
+      .int()
+      .min(MAX_HEART_RATE[0], `Max heart rate must be at least ${MAX_HEART_RATE[0]} bpm`)
+      .max(MAX_HEART_RATE[1], `Max heart rate must be at most ${MAX_HEART_RATE[1]} bpm`),
+    restingHeartRate: z
+      .number('Enter your resting heart rate')
+      .int()
+      .min(
+        RESTING_HEART_RATE[0],
+        `Resting heart rate must be at least ${RESTING_HEART_RATE[0]} bpm`,
+      )
+      .max(
+        RESTING_HEART_RATE[1],
+        `Resting heart rate must be at most ${RESTING_HEART_RATE[1]} bpm`,
+      ),
+  })
+  .refine((values) => values.restingHeartRate < values.maxHeartRate, {
+    message: 'Resting heart rate must be below max heart rate',
+    path: ['restingHeartRate'],
+  });
+
+type TrainingValues = z.infer<typeof trainingSchema>;
+
+const powerSchema = z.object({
+  ftp: z
+    .number('Enter your FTP')
+    .int()
+    .min(FTP[0], `FTP must be at least ${FTP[0]} W`)
+    .max(FTP[1], `FTP must be at most ${FTP[1]} W`),
+});
+
+type PowerValues = z.infer<typeof powerSchema>;
+
 const CONFIRM_TEXT = 'DELETE';
 
 export default function SettingsPage() {
   const { data: profileData } = useUserProfile();
   const updateProfile = useUpdateProfile();
   const disconnectStrava = useDisconnectStrava();
+  const recomputeGameProfile = useRecomputeGameProfile();
   const deleteAccount = useDeleteAccount();
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [confirmInput, setConfirmInput] = useState('');
@@ -55,6 +106,44 @@ export default function SettingsPage() {
     }
   }, [profile?.displayName, reset]);
 
+  const trainingForm = useForm<TrainingValues>({
+    resolver: standardSchemaResolver(trainingSchema),
+  });
+  const resetTraining = trainingForm.reset;
+
+  useEffect(() => {
+    if (profile?.maxHeartRate && profile.restingHeartRate) {
+      resetTraining({
+        maxHeartRate: profile.maxHeartRate,
+        restingHeartRate: profile.restingHeartRate,
+      });
+    }
+  }, [profile?.maxHeartRate, profile?.restingHeartRate, resetTraining]);
+
+  const clearTraining = () => {
+    updateProfile.mutate(
+      { maxHeartRate: null, restingHeartRate: null },
+      {
+        onSuccess: () => resetTraining({ maxHeartRate: undefined, restingHeartRate: undefined }),
+      },
+    );
+  };
+
+  const powerForm = useForm<PowerValues>({
+    resolver: standardSchemaResolver(powerSchema),
+  });
+  const resetPower = powerForm.reset;
+
+  useEffect(() => {
+    if (profile?.ftp) {
+      resetPower({ ftp: profile.ftp });
+    }
+  }, [profile?.ftp, resetPower]);
+
+  const clearPower = () => {
+    updateProfile.mutate({ ftp: null }, { onSuccess: () => resetPower({ ftp: undefined }) });
+  };
+
   const handleDelete = () => {
     deleteAccount.mutate(undefined, {
       onSuccess: () => setDeleteOpen(false),
@@ -73,7 +162,9 @@ export default function SettingsPage() {
         </CardHeader>
         <CardContent>
           <form
-            onSubmit={handleSubmit((data) => updateProfile.mutate(data.displayName))}
+            onSubmit={handleSubmit((data) =>
+              updateProfile.mutate({ displayName: data.displayName }),
+            )}
             className="flex flex-col gap-4"
           >
             <div className="flex flex-col gap-2">
@@ -90,6 +181,109 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Training */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Heart Rate</CardTitle>
+          <CardDescription>
+            Earn effort XP for activities recorded with a heart-rate monitor
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={trainingForm.handleSubmit((data) => updateProfile.mutate(data))}
+            className="flex flex-col gap-4"
+          >
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="maxHeartRate">Max heart rate (bpm)</Label>
+                <Input
+                  id="maxHeartRate"
+                  type="number"
+                  {...trainingForm.register('maxHeartRate', { valueAsNumber: true })}
+                />
+                {trainingForm.formState.errors.maxHeartRate && (
+                  <p className="text-destructive text-sm">
+                    {trainingForm.formState.errors.maxHeartRate.message}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="restingHeartRate">Resting heart rate (bpm)</Label>
+                <Input
+                  id="restingHeartRate"
+                  type="number"
+                  {...trainingForm.register('restingHeartRate', { valueAsNumber: true })}
+                />
+                {trainingForm.formState.errors.restingHeartRate && (
+                  <p className="text-destructive text-sm">
+                    {trainingForm.formState.errors.restingHeartRate.message}
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={updateProfile.isPending}>
+                {updateProfile.isPending ? 'Saving...' : 'Save'}
+              </Button>
+              {(profile?.maxHeartRate || profile?.restingHeartRate) && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={clearTraining}
+                  disabled={updateProfile.isPending}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Power */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cycling Power</CardTitle>
+          <CardDescription>
+            Rides with a power meter earn XP from training stress relative to your FTP
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={powerForm.handleSubmit((data) => updateProfile.mutate(data))}
+            className="flex flex-col gap-4"
+          >
+            <div className="flex flex-col gap-2 sm:max-w-xs">
+              <Label htmlFor="ftp">FTP (watts)</Label>
+              <Input
+                id="ftp"
+                type="number"
+                {...powerForm.register('ftp', { valueAsNumber: true })}
+              />
+              {powerForm.formState.errors.ftp && (
+                <p className="text-destructive text-sm">{powerForm.formState.errors.ftp.message}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={updateProfile.isPending}>
+                {updateProfile.isPending ? 'Saving...' : 'Save'}
+              </Button>
+              {profile?.ftp && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={clearPower}
+                  disabled={updateProfile.isPending}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
       {/* Strava */}
       <Card>
         <CardHeader>
@@ -97,7 +291,9 @@ export default function SettingsPage() {
           <CardDescription>
             {profile?.stravaConnected
               ? `Connected as ${profile.stravaFirstname} ${profile.stravaLastname}`
-              : 'Not connected'}
+              : profile?.stravaDisconnectReason === 'revoked'
+                ? 'Strava access was revoked — reconnect to keep syncing'
+                : 'Not connected'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -111,12 +307,35 @@ export default function SettingsPage() {
             </Button>
           ) : (
             <Button asChild>
-              <a href="/strava/connect">Connect Strava</a>
+              <a href="/strava/connect">
+                {profile?.stravaDisconnectReason === 'revoked'
+                  ? 'Reconnect Strava'
+                  : 'Connect Strava'}
+              </a>
             </Button>
           )}
         </CardContent>
       </Card>
 
+      {/* Progress */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Progress</CardTitle>
+          <CardDescription>
+            Replay all your activities in order to rebuild XP, level and streak
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            onClick={() => recomputeGameProfile.mutate()}
+            disabled={recomputeGameProfile.isPending}
+          >
+            {recomputeGameProfile.isPending ? 'Recalculating...' : 'Recalculate progress'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Danger zone */}
       <Card className="border-destructive/50">
         <CardHeader>
@@ -1,12 +1,14 @@
 'use client';
 
 import type { StravaActivity } from '@endu/shared/types';
-import { ChevronDown, Clock, Mountain, Route, Zap } from 'lucide-react';
+import { ChevronDown, Clock, Copy, Mountain, Route, ShieldAlert, Zap } from 'lucide-react';
 import { useState } from 'react';
 
 import { RoutePreview } from '@/components/activities/route-preview';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { useSetCountedActivity } from '@/hooks/use-mutations';
 import { cn } from '@/lib/utils';
 
 function formatDistance(meters: number): string {
@@ -55,6 +57,8 @@ function isRunOrWalk(type: string): boolean {
 
 export function ActivityCard({ activity }: { activity: StravaActivity }) {
   const [expanded, setExpanded] = useState(false);
+  const setCountedActivity = useSetCountedActivity();
+  const isDuplicate = activity.duplicateOf != null;
 
   return (
     <Card
@@ -84,6 +88,24 @@ export function ActivityCard({ activity }: { activity: StravaActivity }) {
             </div>
           </div>
           <div className="flex shrink-0 items-center gap-2">
+            {activity.antiCheat?.status === 'pending_review' && (
+              <Badge variant="outline" className="gap-1">
+                <ShieldAlert className="h-3 w-3" />
+                In review
+              </Badge>
+            )}
+            {activity.antiCheat?.status === 'rejected' && (
+              <Badge variant="destructive" className="gap-1">
+                <ShieldAlert className="h-3 w-3" />
+                Rejected
+              </Badge>
+            )}
+            {isDuplicate && (
+              <Badge variant="outline" className="gap-1">
+                <Copy className="h-3 w-3" />
+                Duplicate
+              </Badge>
+            )}
             {activity.xpEarned != null && activity.xpEarned > 0 && (
               <Badge variant="secondary" className="gap-1">
                 <Zap className="h-3 w-3" />
@@ -155,6 +177,68 @@ export function ActivityCard({ activity }: { activity: StravaActivity }) {
                 <span className="text-foreground font-medium">+{activity.xpEarned} XP earned</span>
               )}
             </div>
+
+            {/* XP breakdown */}
+            {!!activity.antiCheat?.flags.length && (
+              <ul className="text-muted-foreground mt-1 flex flex-col gap-0.5 text-xs">
+                {activity.antiCheat.flags.map((flag) => (
+                  <li
+                    key={flag.code}
+                    className={cn(flag.severity === 'block' && 'text-destructive')}
+                  >
+                    {flag.message}
+                  </li>
+                ))}
+                {activity.antiCheat.status === 'pending_review' && (
+                  <li>XP is withheld until the activity is reviewed</li>
+                )}
+              </ul>
+            )}
+            {isDuplicate && (
+              <div className="text-muted-foreground mt-2 flex flex-wrap items-center gap-3 text-xs">
+                <span>Recorded twice, so only the other recording earns XP</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={setCountedActivity.isPending}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setCountedActivity.mutate(activity.id);
+                  }}
+                >
+                  Count this one instead
+                </Button>
+              </div>
+            )}
+            {activity.xpBreakdown && activity.xpBreakdown.baseXP > 0 && (
+              <div className="text-muted-foreground mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                <span>
+                  {activity.xpBreakdown.powerBased ? 'Power' : 'Activity'}:{' '}
+                  {activity.xpBreakdown.baseXP - activity.xpBreakdown.elevationXP} XP
+                </span>
+                {activity.xpBreakdown.elevationXP > 0 && (
+                  <span>Elevation: {activity.xpBreakdown.elevationXP} XP</span>
+                )}
+                {!!activity.xpBreakdown.effortBonus && (
+                  <span>Effort: +{activity.xpBreakdown.effortBonus} XP</span>
+                )}
+                {activity.xpBreakdown.streakBonus > 0 && (
+                  <span>Streak bonus: +{activity.xpBreakdown.streakBonus} XP</span>
+                )}
+                {!!activity.xpBreakdown.manualReduction && (
+                  <span>
+                    Manual entry: -{activity.xpBreakdown.manualReduction} XP (
+                    {activity.xpBreakdown.manualPolicy === 'daily_cap'
+                      ? 'daily limit for manual activities reached'
+                      : 'manual activities earn reduced XP'}
+                    )
+                  </span>
+                )}
+                {!!activity.xpBreakdown.dailyLimitReduction && (
+                  <span>Daily limit: -{activity.xpBreakdown.dailyLimitReduction} XP</span>
+                )}
+              </div>
+            )}
           </div>
         )}
       </CardContent>
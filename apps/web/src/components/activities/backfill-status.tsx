@@ -0,0 +1,66 @@
+'use client';
+
+import { History } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useStartStravaBackfill } from '@/hooks/use-mutations';
+import { isBackfillActive, useStravaBackfill } from '@/hooks/use-strava-backfill';
+
+function formatMonth(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+/**
+ * Shows the Strava history import while it runs, and offers to start or retry it
+ * Renders nothing once the import has completed
+ */
+export function BackfillStatus() {
+  const { data, isLoading } = useStravaBackfill();
+  const start = useStartStravaBackfill();
+
+  const backfill = data?.backfill;
+  if (isLoading || backfill?.status === 'completed') {
+    return null;
+  }
+
+  if (backfill && isBackfillActive(backfill)) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col gap-3 p-4">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4 shrink-0" />
+            <p className="font-medium">Importing your Strava history</p>
+            <span className="text-muted-foreground ml-auto text-sm">
+              {Math.round(backfill.progress * 100)}%
+            </span>
+          </div>
+          <Progress value={backfill.progress * 100} />
+          <p className="text-muted-foreground text-sm">
+            {backfill.activitiesFetched.toLocaleString()} activities imported
+            {backfill.lastActivityDate && ` · up to ${formatMonth(backfill.lastActivityDate)}`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <p className="font-medium">
+            {backfill ? 'History import stopped' : 'Import your Strava history'}
+          </p>
+          <p className="text-muted-foreground text-sm">
+            {backfill?.error ?? 'Earn XP for every activity you have ever recorded'}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => start.mutate()} disabled={start.isPending}>
+          {backfill ? 'Retry' : 'Import'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
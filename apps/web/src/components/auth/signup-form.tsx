@@ -1,5 +1,6 @@
 'use client';
 
+import { DISPLAY_NAME_MAX_LENGTH } from '@endu/shared/schemas';
 import { standardSchemaResolver } from '@hookform/resolvers/standard-schema';
 import { Swords } from 'lucide-react';
 import Link from 'next/link';
@@ -15,7 +16,13 @@ import { useSignUp } from '@/hooks/use-mutations';
 const signupSchema = z.object({
   email: z.string().email('Invalid email'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
-  displayName: z.string().min(1, 'Display name is required'),
+  displayName: z
+    .string()
+    .min(1, 'Display name is required')
+    .max(
+      DISPLAY_NAME_MAX_LENGTH,
+      `Display name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters`,
+    ),
 });
 
 type SignupValues = z.infer<typeof signupSchema>;
@@ -0,0 +1,51 @@
+'use client';
+
+import type { CharacterAttributes } from '@endu/shared/types';
+import { Dumbbell, Gauge, HeartPulse, Mountain, Wind } from 'lucide-react';
+
+import { Progress } from '@/components/ui/progress';
+
+const ATTRIBUTES: {
+  key: keyof CharacterAttributes;
+  label: string;
+  hint: string;
+  icon: React.ComponentType<{ className?: string }>;
+}[] = [
+  { key: 'endurance', label: 'Endurance', hint: 'Long runs, rides and swims', icon: HeartPulse },
+  { key: 'strength', label: 'Strength', hint: 'Workouts and weight training', icon: Dumbbell },
+  { key: 'speed', label: 'Speed', hint: 'Fast-paced distance activities', icon: Gauge },
+  { key: 'agility', label: 'Agility', hint: 'Trail, MTB, ski and climbing', icon: Wind },
+  { key: 'climbing', label: 'Climbing', hint: 'Elevation gain', icon: Mountain },
+];
+
+interface AttributeGridProps {
+  attributes: CharacterAttributes | undefined;
+}
+
+export function AttributeGrid({ attributes }: AttributeGridProps) {
+  // Bars are scaled against the strongest attribute
+  const max = Math.max(1, ...ATTRIBUTES.map((a) => attributes?.[a.key] ?? 0));
+
+  return (
+    <div className="flex flex-col gap-4">
+      {ATTRIBUTES.map((attribute) => {
+        const value = attributes?.[attribute.key] ?? 0;
+        return (
+          <div key={attribute.key} className="flex flex-col gap-1.5">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <attribute.icon className="text-muted-foreground h-4 w-4" />
+                <span className="font-medium">{attribute.label}</span>
+                <span className="text-muted-foreground hidden text-xs sm:inline">
+                  {attribute.hint}
+                </span>
+              </div>
+              <span className="text-sm font-semibold">{value.toLocaleString()}</span>
+            </div>
+            <Progress value={(value / max) * 100} className="h-2" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
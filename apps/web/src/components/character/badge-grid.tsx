@@ -0,0 +1,50 @@
+'use client';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAchievements } from '@/hooks/use-achievements';
+import { cn } from '@/lib/utils';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export function BadgeGrid() {
+  const { data, isLoading } = useAchievements();
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const achievements = data?.achievements ?? [];
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+      {achievements.map((achievement) => (
+        <div
+          key={achievement.id}
+          title={achievement.description}
+          className={cn(
+            'flex flex-col items-center gap-1 rounded-lg border p-3 text-center',
+            !achievement.unlocked && 'opacity-40 grayscale',
+          )}
+        >
+          <span className="text-3xl">{achievement.icon}</span>
+          <span className="text-sm font-medium">{achievement.title}</span>
+          <span className="text-muted-foreground text-xs">
+            {achievement.unlockedAt ? formatDate(achievement.unlockedAt) : achievement.description}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
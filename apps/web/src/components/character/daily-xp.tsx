@@ -0,0 +1,37 @@
+'use client';
+
+import type { DailyXPStatus } from '@endu/shared/types';
+import { Gauge } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+interface DailyXPProps {
+  status: DailyXPStatus;
+  className?: string;
+}
+
+function formatResetTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function DailyXP({ status, className }: DailyXPProps) {
+  const limitReached = status.remaining === 0;
+
+  return (
+    <div className={cn('text-muted-foreground flex items-center gap-1.5 text-sm', className)}>
+      <Gauge className="h-4 w-4 shrink-0" />
+      <span>
+        {status.earned.toLocaleString()} XP today ·{' '}
+        {limitReached
+          ? 'daily limit reached'
+          : status.fullRateRemaining > 0
+            ? `${status.fullRateRemaining.toLocaleString()} XP left at full rate`
+            : `${status.remaining.toLocaleString()} XP left at a reduced rate`}{' '}
+        · resets {formatResetTime(status.resetsAt)}
+      </span>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { Flame } from 'lucide-react';
+import type { StreakFreezeUse } from '@endu/shared/types';
+import { Flame, Snowflake } from 'lucide-react';
 
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
@@ -24,9 +25,25 @@ export function StreakIndicator({ count, active }: StreakIndicatorProps) {
 interface StreakDisplayProps {
   count: number;
   active: boolean;
+  freezes?: number;
+  freezeHistory?: StreakFreezeUse[];
 }
 
-export function StreakDisplay({ count, active }: StreakDisplayProps) {
+function formatDay(day: string): string {
+  // Parse as UTC so the calendar day doesn't shift with the viewer's timezone
+  return new Date(day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function StreakDisplay({
+  count,
+  active,
+  freezes = 0,
+  freezeHistory = [],
+}: StreakDisplayProps) {
   return (
     <div className="flex flex-col gap-3">
       <div className="flex items-center gap-3">
@@ -77,6 +94,25 @@ export function StreakDisplay({ count, active }: StreakDisplayProps) {
         <span>7d ago</span>
         <span>Today</span>
       </div>
+
+      {/* Streak freezes */}
+      <div className="flex items-center gap-1.5 text-sm">
+        <Snowflake className="h-4 w-4 text-sky-500" />
+        <span className="font-medium">
+          {freezes} streak freeze{freezes === 1 ? '' : 's'}
+        </span>
+        <span className="text-muted-foreground">— covers a single rest day</span>
+      </div>
+      {freezeHistory.length > 0 && (
+        <p className="text-muted-foreground text-xs">
+          Used on{' '}
+          {freezeHistory
+            .slice(-5)
+            .reverse()
+            .map((use) => formatDay(use.day))
+            .join(', ')}
+        </p>
+      )}
     </div>
   );
 }
@@ -11,16 +11,17 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Separator } from '@/components/ui/separator';
 import { useGameProfile } from '@/hooks/use-game-profile';
 import { queryKeys } from '@/lib/api/query-keys';
-import { addDebugXP } from '@/lib/firebase/functions';
+import { api } from '@/lib/firebase/functions';
 
 function useDebugXP() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (xpToAdd: number) => addDebugXP({ xpToAdd }),
+    mutationFn: (xpToAdd: number) => api.addDebugXP({ xpToAdd }),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.gameProfile });
       queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.xpHistory });
       toast.success(`XP updated → ${data.newTotalXP} XP, Level ${data.newLevel}`);
     },
     onError: () => toast.error('Failed to update XP'),
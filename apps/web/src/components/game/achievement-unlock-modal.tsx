@@ -0,0 +1,56 @@
+'use client';
+
+import type { Achievement } from '@endu/shared/types';
+import { useState } from 'react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AchievementUnlockModalProps {
+  achievements: Achievement[] | undefined;
+}
+
+export function AchievementUnlockModal({ achievements }: AchievementUnlockModalProps) {
+  // Achievements already unlocked when the app loaded (or already celebrated)
+  const [seen, setSeen] = useState<Set<string> | null>(null);
+
+  if (!achievements) return null;
+
+  const unlockedIds = achievements.filter((a) => a.unlocked).map((a) => a.id);
+  if (seen === null) {
+    setSeen(new Set(unlockedIds));
+    return null;
+  }
+
+  const newlyUnlocked = achievements.filter((a) => a.unlocked && !seen.has(a.id));
+  const achievement = newlyUnlocked[0];
+
+  return (
+    <Dialog
+      open={!!achievement}
+      onOpenChange={(open) => {
+        if (!open) setSeen(new Set(unlockedIds));
+      }}
+    >
+      {achievement && (
+        <DialogContent className="text-center sm:max-w-sm">
+          <DialogHeader className="items-center">
+            <div className="mb-2 text-5xl">{achievement.icon}</div>
+            <DialogTitle className="text-2xl">{achievement.title} Unlocked!</DialogTitle>
+            <DialogDescription className="text-base">{achievement.description}</DialogDescription>
+          </DialogHeader>
+          {newlyUnlocked.length > 1 && (
+            <div className="text-muted-foreground text-sm">
+              +{newlyUnlocked.length - 1} more achievement{newlyUnlocked.length > 2 ? 's' : ''}
+            </div>
+          )}
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
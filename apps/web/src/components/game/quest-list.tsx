@@ -0,0 +1,87 @@
+'use client';
+
+import type { QuestMetric, QuestProgress, QuestSet } from '@endu/shared/types';
+import { CheckCircle2 } from 'lucide-react';
+
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useQuests } from '@/hooks/use-quests';
+import { cn } from '@/lib/utils';
+
+function formatMetric(metric: QuestMetric, value: number): string {
+  switch (metric) {
+    case 'distance':
+      return `${(value / 1000).toFixed(1)} km`;
+    case 'moving_time':
+      return `${Math.floor(value / 60)} min`;
+    case 'elevation':
+      return `${Math.round(value)} m`;
+    default:
+      return value.toString();
+  }
+}
+
+function formatTimeLeft(endsAt: string): string {
+  const hours = Math.max(0, Math.floor((new Date(endsAt).getTime() - Date.now()) / 3600000));
+  if (hours >= 24) return `${Math.floor(hours / 24)}d left`;
+  return `${hours}h left`;
+}
+
+function QuestRow({ quest }: { quest: QuestProgress }) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <div className="flex min-w-0 items-center gap-2">
+          {quest.completed && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />}
+          <span className={cn('truncate', quest.completed && 'text-muted-foreground')}>
+            {quest.title}
+          </span>
+        </div>
+        <span className="text-muted-foreground shrink-0 text-xs">+{quest.xpReward} XP</span>
+      </div>
+      <Progress value={(quest.progress / quest.target) * 100} className="h-2" />
+      <span className="text-muted-foreground text-xs">
+        {formatMetric(quest.metric, quest.progress)} / {formatMetric(quest.metric, quest.target)}
+      </span>
+    </div>
+  );
+}
+
+function QuestSection({ title, questSet }: { title: string; questSet: QuestSet }) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">{title}</h3>
+        <span className="text-muted-foreground text-xs">{formatTimeLeft(questSet.endsAt)}</span>
+      </div>
+      {questSet.quests.map((quest) => (
+        <QuestRow key={quest.questId} quest={quest} />
+      ))}
+    </div>
+  );
+}
+
+export function QuestList() {
+  const { data, isLoading } = useQuests();
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-2">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <p className="text-muted-foreground text-sm">Quests unavailable</p>;
+  }
+
+  return (
+    <div className="grid gap-6 sm:grid-cols-2">
+      <QuestSection title="Daily" questSet={data.daily} />
+      <QuestSection title="Weekly" questSet={data.weekly} />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import type { XPLedgerEntryResponse, XPLedgerEntryType } from '@endu/shared/types';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useXPHistory } from '@/hooks/use-xp-history';
+import { cn } from '@/lib/utils';
+
+const ENTRY_LABELS: Record<XPLedgerEntryType, string> = {
+  activity: 'Activity',
+  elevation: 'Elevation',
+  streak_bonus: 'Streak',
+  effort: 'Effort',
+  manual: 'Manual',
+  daily_limit: 'Daily limit',
+  debug: 'Debug',
+  reversal: 'Reversal',
+  recompute: 'Recompute',
+  quest: 'Quest',
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function XPHistory() {
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useXPHistory();
+
+  const entries: XPLedgerEntryResponse[] = data?.pages.flatMap((p) => p.entries) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground text-sm">No XP earned yet</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className="flex items-center gap-3 border-b py-2 text-sm last:border-b-0"
+        >
+          <Badge variant="outline" className="w-20 justify-center">
+            {ENTRY_LABELS[entry.type]}
+          </Badge>
+          <div className="min-w-0 flex-1">
+            <p className="truncate">{entry.description}</p>
+            <p className="text-muted-foreground text-xs">{formatDate(entry.createdAt)}</p>
+          </div>
+          <div className="shrink-0 text-right">
+            <p
+              className={cn(
+                'font-medium',
+                entry.amount < 0 ? 'text-destructive' : 'text-foreground',
+              )}
+            >
+              {entry.amount > 0 ? '+' : ''}
+              {entry.amount.toLocaleString()} XP
+            </p>
+            <p className="text-muted-foreground text-xs">
+              {entry.balanceAfter.toLocaleString()} total
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 self-center"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
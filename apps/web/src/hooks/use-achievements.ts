@@ -0,0 +1,17 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+
+import { useAuth } from '@/hooks/use-auth';
+import { queryKeys } from '@/lib/api/query-keys';
+import { api } from '@/lib/firebase/functions';
+
+export function useAchievements() {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.achievements,
+    queryFn: () => api.getAchievements(),
+    enabled: isAuthenticated,
+  });
+}
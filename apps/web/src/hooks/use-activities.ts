@@ -4,7 +4,7 @@ import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 
 import { useAuth } from '@/hooks/use-auth';
 import { queryKeys } from '@/lib/api/query-keys';
-import { getUserActivities } from '@/lib/firebase/functions';
+import { api } from '@/lib/firebase/functions';
 
 const PAGE_SIZE = 20;
 
@@ -13,12 +13,9 @@ export function useActivities() {
 
   return useInfiniteQuery({
     queryKey: queryKeys.activities,
-    queryFn: ({ pageParam }) => getUserActivities({ page: pageParam, perPage: PAGE_SIZE }),
-    initialPageParam: 1,
-    getNextPageParam: (lastPage, _allPages, lastPageParam) => {
-      if (lastPage.activities.length < PAGE_SIZE) return undefined;
-      return lastPageParam + 1;
-    },
+    queryFn: ({ pageParam }) => api.getUserActivities({ cursor: pageParam, perPage: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: isAuthenticated,
   });
 }
@@ -28,7 +25,7 @@ export function useRecentActivities(count: number = 3) {
 
   return useQuery({
     queryKey: [...queryKeys.activities, 'recent', count],
-    queryFn: () => getUserActivities({ page: 1, perPage: count }),
+    queryFn: () => api.getUserActivities({ perPage: count }),
     enabled: isAuthenticated,
   });
 }
@@ -4,14 +4,14 @@ import { useQuery } from '@tanstack/react-query';
 
 import { useAuth } from '@/hooks/use-auth';
 import { queryKeys } from '@/lib/api/query-keys';
-import { getGameProfile } from '@/lib/firebase/functions';
+import { api } from '@/lib/firebase/functions';
 
 export function useGameProfile() {
   const { isAuthenticated } = useAuth();
 
   return useQuery({
     queryKey: queryKeys.gameProfile,
-    queryFn: getGameProfile,
+    queryFn: () => api.getGameProfile(),
     enabled: isAuthenticated,
   });
 }
@@ -1,5 +1,6 @@
 'use client';
 
+import type { UpdateProfileData, ValidationErrorDetails } from '@endu/shared/types';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { FirebaseError } from 'firebase/app';
 import { signInWithCustomToken, signOut } from 'firebase/auth';
@@ -8,12 +9,20 @@ import { toast } from 'sonner';
 
 import { queryKeys } from '@/lib/api/query-keys';
 import { getAuth } from '@/lib/firebase/config';
-import * as api from '@/lib/firebase/functions';
+import { api } from '@/lib/firebase/functions';
+
+function isValidationErrorDetails(details: unknown): details is ValidationErrorDetails {
+  return typeof details === 'object' && details !== null && 'fieldErrors' in details;
+}
 
 function getErrorMessage(error: unknown, fallback: string): string {
   if (error instanceof FirebaseError) {
     const details = (error as FirebaseError & { details?: unknown }).details;
     console.error(`[${error.code}] ${error.message}`, { details, customData: error.customData });
+    // Rejected request data lists every problem, by field
+    if (isValidationErrorDetails(details)) {
+      return [...details.formErrors, ...Object.values(details.fieldErrors).flat()].join(' ');
+    }
     // FirebaseError.message for callable internal errors is just "INTERNAL"
     // — prefer details or fallback in that case
     if (details && typeof details === 'string') return details;
@@ -64,6 +73,7 @@ export function useConnectStrava() {
     mutationFn: (code: string) => api.exchangeCodeForToken({ code }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stravaBackfill });
       router.push('/dashboard');
       toast.success('Strava connected!');
     },
@@ -79,6 +89,9 @@ export function useSyncActivities() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activities'] });
       queryClient.invalidateQueries({ queryKey: queryKeys.gameProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.xpHistory });
+      queryClient.invalidateQueries({ queryKey: queryKeys.quests });
+      queryClient.invalidateQueries({ queryKey: queryKeys.achievements });
       queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
       toast.success('Activities synced!');
     },
@@ -86,11 +99,56 @@ export function useSyncActivities() {
   });
 }
 
+export function useStartStravaBackfill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.startStravaBackfill(),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.stravaBackfill, data);
+      toast.success('Importing your Strava history');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to import Strava history')),
+  });
+}
+
+export function useRecomputeGameProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.recomputeGameProfile(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.gameProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.xpHistory });
+      toast.success('Progress recalculated!');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to recalculate progress')),
+  });
+}
+
+export function useSetCountedActivity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (activityId: number) => api.setCountedActivity({ activityId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['activities'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.gameProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.xpHistory });
+      toast.success('Activity now counts');
+    },
+    onError: (error) => toast.error(getErrorMessage(error, 'Failed to switch activity')),
+  });
+}
+
 export function useUpdateProfile() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (displayName: string) => api.updateUserProfile({ displayName }),
+    mutationFn: (data: UpdateProfileData) => api.updateUserProfile(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
       toast.success('Profile updated!');
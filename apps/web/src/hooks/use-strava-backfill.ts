@@ -0,0 +1,45 @@
+'use client';
+
+import type { StravaBackfillProgress } from '@endu/shared/types';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+
+import { useAuth } from '@/hooks/use-auth';
+import { queryKeys } from '@/lib/api/query-keys';
+import { api } from '@/lib/firebase/functions';
+
+// The backfill job advances every 15 minutes, so polling faster shows nothing new
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function isBackfillActive(backfill: StravaBackfillProgress | null | undefined): boolean {
+  return backfill?.status === 'pending' || backfill?.status === 'running';
+}
+
+export function useStravaBackfill() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.stravaBackfill,
+    queryFn: () => api.getStravaBackfill(),
+    enabled: isAuthenticated,
+    refetchInterval: (query) =>
+      isBackfillActive(query.state.data?.backfill) ? POLL_INTERVAL_MS : false,
+  });
+
+  // Imported activities change the activity list, XP, stats and achievements
+  const activitiesStored = query.data?.backfill?.activitiesStored;
+  const previousStored = useRef(activitiesStored);
+  useEffect(() => {
+    if (previousStored.current !== undefined && activitiesStored !== previousStored.current) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.activities });
+      queryClient.invalidateQueries({ queryKey: queryKeys.gameProfile });
+      queryClient.invalidateQueries({ queryKey: queryKeys.xpHistory });
+      queryClient.invalidateQueries({ queryKey: queryKeys.achievements });
+      queryClient.invalidateQueries({ queryKey: queryKeys.userProfile });
+    }
+    previousStored.current = activitiesStored;
+  }, [activitiesStored, queryClient]);
+
+  return query;
+}
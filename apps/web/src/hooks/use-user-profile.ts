@@ -4,14 +4,14 @@ import { useQuery } from '@tanstack/react-query';
 
 import { useAuth } from '@/hooks/use-auth';
 import { queryKeys } from '@/lib/api/query-keys';
-import { getUserProfile } from '@/lib/firebase/functions';
+import { api } from '@/lib/firebase/functions';
 
 export function useUserProfile() {
   const { isAuthenticated } = useAuth();
 
   return useQuery({
     queryKey: queryKeys.userProfile,
-    queryFn: getUserProfile,
+    queryFn: () => api.getUserProfile(),
     enabled: isAuthenticated,
   });
 }
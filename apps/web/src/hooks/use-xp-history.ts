@@ -0,0 +1,21 @@
+'use client';
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+
+import { useAuth } from '@/hooks/use-auth';
+import { queryKeys } from '@/lib/api/query-keys';
+import { api } from '@/lib/firebase/functions';
+
+const PAGE_SIZE = 20;
+
+export function useXPHistory() {
+  const { isAuthenticated } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.xpHistory,
+    queryFn: ({ pageParam }) => api.getXPHistory({ cursor: pageParam, perPage: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: isAuthenticated,
+  });
+}
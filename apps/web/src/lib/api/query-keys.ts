@@ -2,4 +2,8 @@ export const queryKeys = {
   userProfile: ['userProfile'] as const,
   gameProfile: ['gameProfile'] as const,
   activities: ['activities'] as const,
+  xpHistory: ['xpHistory'] as const,
+  quests: ['quests'] as const,
+  achievements: ['achievements'] as const,
+  stravaBackfill: ['stravaBackfill'] as const,
 };
@@ -0,0 +1,28 @@
+import { readFile } from 'node:fs/promises';
+import * as esbuild from 'esbuild';
+
+// Firebase uploads only this package and installs it with npm, which can't resolve workspace
+// packages, so @endu/shared is bundled in from source and only npm dependencies stay external
+const { dependencies } = JSON.parse(
+  await readFile(new URL('./package.json', import.meta.url), 'utf8'),
+);
+
+const options = {
+  entryPoints: ['src/index.ts'],
+  bundle: true,
+  platform: 'node',
+  target: 'node22',
+  format: 'cjs',
+  outfile: 'lib/index.js',
+  sourcemap: true,
+  alias: { '@endu/shared': '../shared' },
+  external: Object.keys(dependencies),
+  logLevel: 'info',
+};
+
+if (process.argv.includes('--watch')) {
+  const context = await esbuild.context(options);
+  await context.watch();
+} else {
+  await esbuild.build(options);
+}
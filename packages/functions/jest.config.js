@@ -4,3 +4,4 @@ export const roots = ['<rootDir>/src'];
 export const testMatch = ['**/__tests__/**/*.test.ts'];
 export const collectCoverageFrom = ['src/**/*.ts', '!src/**/*.d.ts', '!src/index.ts'];
 export const moduleFileExtensions = ['ts', 'tsx', 'js', 'jsx', 'json', 'node'];
+export const moduleNameMapper = { '^@endu/shared/(.*)$': '<rootDir>/../shared/$1' };
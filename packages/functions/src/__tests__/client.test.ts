@@ -0,0 +1,291 @@
+import { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse } from 'axios';
+import { HttpsError } from 'firebase-functions/v2/https';
+
+import {
+  createStravaClient,
+  getRateLimitedUntil,
+  parseRateLimitHeaders,
+  RateLimitReading,
+  RateLimitStore,
+} from '../strava/client';
+
+// Retries and held-back requests are logged as warnings
+jest.mock('firebase-functions/logger');
+
+// 12:03 UTC, in the short-term window that resets at 12:15
+const NOW = Date.UTC(2024, 0, 1, 12, 3);
+const WINDOW_START = Date.UTC(2024, 0, 1, 12, 0);
+const WINDOW_END = Date.UTC(2024, 0, 1, 12, 15);
+const NEXT_DAY = Date.UTC(2024, 0, 2);
+
+function makeReading(overrides: Partial<RateLimitReading> = {}): RateLimitReading {
+  return {
+    shortTermLimit: 200,
+    shortTermUsage: 0,
+    dailyLimit: 2000,
+    dailyUsage: 0,
+    windowStart: WINDOW_START / 1000,
+    day: '2024-01-01',
+    ...overrides,
+  };
+}
+
+function makeHeaders(usage: string): Record<string, string> {
+  return { 'x-ratelimit-limit': '200,2000', 'x-ratelimit-usage': usage };
+}
+
+function makeResponse(status: number, headers: Record<string, string> = {}): AxiosResponse {
+  return {
+    status,
+    statusText: '',
+    data: {},
+    headers,
+    config: { headers: new AxiosHeaders() },
+  };
+}
+
+function makeError(status?: number, headers: Record<string, string> = {}): AxiosError {
+  return new AxiosError(
+    'Request failed',
+    status === undefined ? 'ECONNRESET' : undefined,
+    undefined,
+    undefined,
+    status === undefined ? undefined : makeResponse(status, headers),
+  );
+}
+
+function createMemoryStore(initial: RateLimitReading | null = null) {
+  const store = {
+    reading: initial,
+    read: async () => store.reading,
+    write: async (reading: RateLimitReading) => {
+      store.reading = reading;
+    },
+  };
+  return store satisfies RateLimitStore;
+}
+
+/**
+ * Creates a client over a fake HTTP instance and a clock that sleeping moves forward
+ */
+function setup(responses: (AxiosResponse | AxiosError)[], options: { now?: number } = {}) {
+  let clock = options.now ?? NOW;
+  const store = createMemoryStore();
+  const request = jest.fn();
+  for (const response of responses) {
+    if (response instanceof AxiosError) {
+      request.mockRejectedValueOnce(response);
+    } else {
+      request.mockResolvedValueOnce(response);
+    }
+  }
+  const sleep = jest.fn(async (ms: number) => {
+    clock += ms;
+  });
+  const client = createStravaClient({
+    store,
+    http: { request } as unknown as AxiosInstance,
+    now: () => clock,
+    sleep,
+  });
+  return { client, store, request, sleep };
+}
+
+describe('parseRateLimitHeaders', () => {
+  it('reads the short-term and daily limits and usage', () => {
+    expect(parseRateLimitHeaders(makeHeaders('50,300'), NOW)).toEqual(
+      makeReading({ shortTermUsage: 50, dailyUsage: 300 }),
+    );
+  });
+
+  it('keys the reading to the current window and UTC day', () => {
+    const nearMidnight = Date.UTC(2024, 0, 1, 23, 59);
+
+    expect(parseRateLimitHeaders(makeHeaders('1,1'), nearMidnight)).toMatchObject({
+      windowStart: Date.UTC(2024, 0, 1, 23, 45) / 1000,
+      day: '2024-01-01',
+    });
+  });
+
+  it.each([
+    ['missing', {}],
+    ['missing usage', { 'x-ratelimit-limit': '200,2000' }],
+    ['a single value', { 'x-ratelimit-limit': '200', 'x-ratelimit-usage': '50' }],
+    ['non-numeric', { 'x-ratelimit-limit': '200,2000', 'x-ratelimit-usage': 'a,b' }],
+  ])('returns null for %s headers', (_name, headers) => {
+    expect(parseRateLimitHeaders(headers, NOW)).toBeNull();
+  });
+});
+
+describe('getRateLimitedUntil', () => {
+  it('allows any request without a reading', () => {
+    expect(getRateLimitedUntil(null, 'bulk', NOW)).toBeNull();
+  });
+
+  it.each([
+    // Bulk work gets 60% of the limits, interactive requests 90% and webhooks all of it
+    [119, 'bulk', null],
+    [120, 'bulk', WINDOW_END],
+    [179, 'interactive', null],
+    [180, 'interactive', WINDOW_END],
+    [199, 'webhook', null],
+    [200, 'webhook', WINDOW_END],
+  ] as const)(
+    'with %i of 200 short-term requests used, holds %s until %s',
+    (used, priority, until) => {
+      expect(getRateLimitedUntil(makeReading({ shortTermUsage: used }), priority, NOW)).toBe(until);
+    },
+  );
+
+  it.each([
+    [1199, 'bulk', null],
+    [1200, 'bulk', NEXT_DAY],
+    [1800, 'interactive', NEXT_DAY],
+    [1999, 'webhook', null],
+    [2000, 'webhook', NEXT_DAY],
+  ] as const)('with %i of 2000 daily requests used, holds %s until %s', (used, priority, until) => {
+    expect(getRateLimitedUntil(makeReading({ dailyUsage: used }), priority, NOW)).toBe(until);
+  });
+
+  it('ignores short-term usage from an earlier window', () => {
+    const reading = makeReading({ shortTermUsage: 200, windowStart: WINDOW_START / 1000 - 900 });
+
+    expect(getRateLimitedUntil(reading, 'bulk', NOW)).toBeNull();
+  });
+
+  it('ignores daily usage from an earlier day', () => {
+    const reading = makeReading({ dailyUsage: 2000, day: '2023-12-31' });
+
+    expect(getRateLimitedUntil(reading, 'bulk', NOW)).toBeNull();
+  });
+});
+
+describe('createStravaClient', () => {
+  it('sends the access token and records the reported usage', async () => {
+    const { client, store, request } = setup([makeResponse(200, makeHeaders('10,100'))]);
+
+    await client.request({
+      method: 'GET',
+      url: '/athlete',
+      priority: 'interactive',
+      accessToken: 'token',
+    });
+
+    expect(request).toHaveBeenCalledWith({
+      method: 'GET',
+      url: '/athlete',
+      params: undefined,
+      headers: { Authorization: 'Bearer token' },
+    });
+    expect(store.reading).toEqual(makeReading({ shortTermUsage: 10, dailyUsage: 100 }));
+  });
+
+  it('holds back a request over its share without sending it', async () => {
+    const { client, store, request } = setup([]);
+    store.reading = makeReading({ shortTermUsage: 150 });
+
+    const promise = client.request({ method: 'GET', url: '/activities', priority: 'bulk' });
+
+    await expect(promise).rejects.toBeInstanceOf(HttpsError);
+    await expect(promise).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      details: { retryAt: new Date(WINDOW_END).toISOString() },
+    });
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('sends a higher priority request while bulk work is held back', async () => {
+    const { client, store, request } = setup([makeResponse(200)]);
+    store.reading = makeReading({ shortTermUsage: 150 });
+
+    await client.request({ method: 'GET', url: '/activities/1', priority: 'webhook' });
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits out a 429 when the window is about to reset', async () => {
+    const tenSecondsBeforeReset = WINDOW_END - 10 * 1000;
+    const { client, request, sleep } = setup(
+      [makeError(429, makeHeaders('200,500')), makeResponse(200, makeHeaders('1,501'))],
+      { now: tenSecondsBeforeReset },
+    );
+
+    await client.request({ method: 'GET', url: '/athlete', priority: 'interactive' });
+
+    expect(sleep).toHaveBeenCalledWith(10 * 1000);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws resource-exhausted for a 429 far from the window reset', async () => {
+    const { client, request, sleep } = setup([makeError(429, makeHeaders('200,500'))]);
+
+    await expect(
+      client.request({ method: 'GET', url: '/athlete', priority: 'interactive' }),
+    ).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      details: { retryAt: new Date(WINDOW_END).toISOString() },
+    });
+    expect(sleep).not.toHaveBeenCalled();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws resource-exhausted until the next day once the daily limit is used up', async () => {
+    const { client } = setup([makeError(429, makeHeaders('20,2000'))], {
+      now: WINDOW_END - 1000,
+    });
+
+    await expect(
+      client.request({ method: 'GET', url: '/athlete', priority: 'webhook' }),
+    ).rejects.toMatchObject({
+      code: 'resource-exhausted',
+      details: { retryAt: new Date(NEXT_DAY).toISOString() },
+    });
+  });
+
+  it('never waits out a 429 for bulk work', async () => {
+    const { client, sleep } = setup([makeError(429, makeHeaders('200,500'))], {
+      now: WINDOW_END - 1000,
+    });
+
+    await expect(
+      client.request({ method: 'GET', url: '/activities', priority: 'bulk' }),
+    ).rejects.toMatchObject({ code: 'resource-exhausted' });
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('retries 5xx and network errors with exponential backoff', async () => {
+    const { client, request, sleep } = setup([makeError(503), makeError(), makeResponse(200)]);
+
+    await client.request({ method: 'GET', url: '/athlete', priority: 'interactive' });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[500], [1000]]);
+  });
+
+  it('gives up after the retry cap with the last error', async () => {
+    const lastError = makeError(502);
+    const { client, request, sleep } = setup([
+      makeError(500),
+      makeError(500),
+      makeError(500),
+      lastError,
+    ]);
+
+    await expect(
+      client.request({ method: 'GET', url: '/athlete', priority: 'interactive' }),
+    ).rejects.toBe(lastError);
+    expect(request).toHaveBeenCalledTimes(4);
+    expect(sleep.mock.calls).toEqual([[500], [1000], [2000]]);
+  });
+
+  it('does not retry other client errors', async () => {
+    const notFound = makeError(404);
+    const { client, request, sleep } = setup([notFound]);
+
+    await expect(
+      client.request({ method: 'GET', url: '/activities/1', priority: 'webhook' }),
+    ).rejects.toBe(notFound);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { StravaActivity } from '@endu/shared/types';
+
+import { isDuplicateActivity } from '../anticheat/duplicates';
+
+function makeActivity(overrides: Partial<StravaActivity>): StravaActivity {
+  return {
+    id: 1,
+    name: 'Morning Run',
+    distance: 5000,
+    moving_time: 1800,
+    elapsed_time: 1900,
+    total_elevation_gain: 40,
+    type: 'Run',
+    sport_type: 'Run',
+    start_date: '2024-01-01T08:00:00Z',
+    start_date_local: '2024-01-01T08:00:00Z',
+    timezone: '(GMT+00:00) Europe/London',
+    average_speed: 2.8,
+    max_speed: 4,
+    has_heartrate: false,
+    athlete_count: 1,
+    commute: false,
+    manual: false,
+    private: false,
+    ...overrides,
+  };
+}
+
+// Hyde Park Corner to Marble Arch, as recorded by two devices, and the same run the other way
+const ROUTE = '{bjyHjy\\gm@{sB';
+const ROUTE_OTHER_DEVICE = 'wdjyHf{\\{m@srB';
+const ROUTE_REVERSED = 'cqkyHndYfm@zsB';
+
+describe('isDuplicateActivity', () => {
+  const activity = makeActivity({ map: { id: 'a1', summary_polyline: ROUTE } });
+
+  it('matches the same workout recorded on another device', () => {
+    const other = makeActivity({
+      id: 2,
+      distance: 4900,
+      start_date: '2024-01-01T08:00:30Z',
+      map: { id: 'a2', summary_polyline: ROUTE_OTHER_DEVICE },
+    });
+
+    expect(isDuplicateActivity(activity, other)).toBe(true);
+  });
+
+  it('compares time and distance alone when only one activity has a route', () => {
+    expect(isDuplicateActivity(activity, makeActivity({ id: 2 }))).toBe(true);
+  });
+
+  it.each([
+    ['of another type', { type: 'Ride', sport_type: 'Ride' }],
+    ['sharing too little time', { start_date: '2024-01-01T08:10:00Z' }],
+    ['of a different distance', { distance: 4000 }],
+    ['along another route', { map: { id: 'a2', summary_polyline: ROUTE_REVERSED } }],
+  ] as [string, Partial<StravaActivity>][])('rejects an activity %s', (_name, overrides) => {
+    expect(isDuplicateActivity(activity, makeActivity({ id: 2, ...overrides }))).toBe(false);
+  });
+});
@@ -0,0 +1,404 @@
+import { GameProfile, StravaActivity } from '@endu/shared/types';
+import { Timestamp } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+
+import {
+  calculatePowerXP,
+  daysBetween,
+  getActivityLocalDay,
+  getInitialGameProfile,
+  getLocalDayEnd,
+  updateStreak,
+} from '../game/game';
+import { decodeXPHistoryCursor, encodeXPHistoryCursor } from '../game/ledger';
+import { replayActivities } from '../game/recompute';
+import { DEFAULT_XP_RULES } from '../game/rules';
+import { isStreakExpired } from '../game/streaks';
+
+// Unknown timezones are logged as warnings
+jest.mock('firebase-functions/logger');
+
+function makeActivity(overrides: Partial<StravaActivity>): StravaActivity {
+  return {
+    id: 1,
+    name: 'Morning Run',
+    distance: 5000,
+    moving_time: 1800,
+    elapsed_time: 1900,
+    total_elevation_gain: 40,
+    type: 'Run',
+    sport_type: 'Run',
+    start_date: '2024-01-01T08:00:00Z',
+    start_date_local: '2024-01-01T08:00:00Z',
+    timezone: '(GMT+00:00) Europe/London',
+    average_speed: 2.8,
+    max_speed: 4,
+    has_heartrate: false,
+    athlete_count: 1,
+    commute: false,
+    manual: false,
+    private: false,
+    ...overrides,
+  };
+}
+
+describe('getActivityLocalDay', () => {
+  it('uses the wall-clock day Strava reports', () => {
+    const activity = makeActivity({
+      start_date: '2024-03-10T05:30:00Z',
+      start_date_local: '2024-03-09T21:30:00Z',
+      timezone: '(GMT-08:00) America/Los_Angeles',
+    });
+
+    expect(getActivityLocalDay(activity)).toBe('2024-03-09');
+  });
+
+  it('derives the day from the timezone without start_date_local', () => {
+    const activity = makeActivity({
+      start_date: '2024-03-10T07:30:00Z',
+      start_date_local: '',
+      timezone: '(GMT-08:00) America/Los_Angeles',
+    });
+
+    expect(getActivityLocalDay(activity)).toBe('2024-03-09');
+  });
+
+  it('handles half-hour zones either side of midnight', () => {
+    const timezone = '(GMT+05:30) Asia/Kolkata';
+
+    expect(
+      getActivityLocalDay(
+        makeActivity({ start_date: '2024-01-01T18:15:00Z', start_date_local: '', timezone }),
+      ),
+    ).toBe('2024-01-01');
+    expect(
+      getActivityLocalDay(
+        makeActivity({ start_date: '2024-01-01T18:45:00Z', start_date_local: '', timezone }),
+      ),
+    ).toBe('2024-01-02');
+  });
+
+  it('falls back to the UTC day for an unknown timezone', () => {
+    const activity = makeActivity({
+      start_date: '2024-01-01T23:30:00Z',
+      start_date_local: '',
+      timezone: '(GMT+00:00) Nowhere/Unknown',
+    });
+
+    expect(getActivityLocalDay(activity)).toBe('2024-01-01');
+  });
+});
+
+describe('getLocalDayEnd', () => {
+  it.each([
+    // US spring forward: the day is 23 hours long and ends on daylight time
+    ['2024-03-09', 'America/New_York', '2024-03-10T05:00:00.000Z'],
+    ['2024-03-10', 'America/New_York', '2024-03-11T04:00:00.000Z'],
+    // US fall back: the day is 25 hours long and ends on standard time
+    ['2024-11-03', 'America/New_York', '2024-11-04T05:00:00.000Z'],
+    // EU changes at 01:00 UTC, on different dates than the US
+    ['2024-03-30', 'Europe/Berlin', '2024-03-30T23:00:00.000Z'],
+    ['2024-03-31', 'Europe/Berlin', '2024-03-31T22:00:00.000Z'],
+    ['2024-10-26', 'Europe/Berlin', '2024-10-26T22:00:00.000Z'],
+    ['2024-10-27', 'Europe/Berlin', '2024-10-27T23:00:00.000Z'],
+    // Half-hour zone
+    ['2024-01-01', 'Asia/Kolkata', '2024-01-01T18:30:00.000Z'],
+  ])('ends %s in %s at %s', (day, timeZone, expected) => {
+    expect(getLocalDayEnd(day, timeZone).toISOString()).toBe(expected);
+  });
+
+  it('uses UTC midnight without a timezone', () => {
+    expect(getLocalDayEnd('2024-01-01', undefined).toISOString()).toBe('2024-01-02T00:00:00.000Z');
+  });
+
+  it('uses UTC midnight for an unknown timezone', () => {
+    expect(getLocalDayEnd('2024-01-01', 'Nowhere/Unknown').toISOString()).toBe(
+      '2024-01-02T00:00:00.000Z',
+    );
+  });
+});
+
+describe('daysBetween', () => {
+  it.each([
+    ['2024-01-01', '2024-01-01', 0],
+    ['2024-01-01', '2024-01-02', 1],
+    ['2024-01-02', '2024-01-01', -1],
+    ['2023-12-31', '2024-01-01', 1],
+    ['2024-02-28', '2024-03-01', 2],
+    // Across the US and EU DST changes
+    ['2024-03-09', '2024-03-11', 2],
+    ['2024-03-30', '2024-04-01', 2],
+    ['2024-10-26', '2024-10-28', 2],
+    ['2024-11-02', '2024-11-04', 2],
+  ])('counts %s to %s as %i days', (from, to, expected) => {
+    expect(daysBetween(from, to)).toBe(expected);
+  });
+});
+
+describe('updateStreak', () => {
+  it('starts a streak with the first activity', () => {
+    expect(updateStreak(undefined, 0, '2024-01-01')).toEqual({
+      streakCount: 1,
+      streakActive: false,
+      lastActivityDay: '2024-01-01',
+      streakFreezes: 0,
+    });
+  });
+
+  it('keeps the streak for another activity on the same day', () => {
+    expect(updateStreak('2024-01-03', 3, '2024-01-03')).toEqual({
+      streakCount: 3,
+      streakActive: true,
+      lastActivityDay: '2024-01-03',
+      streakFreezes: 0,
+    });
+  });
+
+  it('keeps the streak and latest day for an out-of-order activity', () => {
+    expect(updateStreak('2024-01-05', 2, '2024-01-03')).toEqual({
+      streakCount: 2,
+      streakActive: false,
+      lastActivityDay: '2024-01-05',
+      streakFreezes: 0,
+    });
+  });
+
+  it('extends the streak on consecutive days and activates it at the threshold', () => {
+    const second = updateStreak('2024-01-01', 1, '2024-01-02');
+    const third = updateStreak(second.lastActivityDay, second.streakCount, '2024-01-03');
+
+    expect(second).toMatchObject({ streakCount: 2, streakActive: false });
+    expect(third).toMatchObject({ streakCount: 3, streakActive: true });
+  });
+
+  it('bridges a rest day with a streak freeze', () => {
+    expect(updateStreak('2024-01-01', 4, '2024-01-03', 1)).toEqual({
+      streakCount: 5,
+      streakActive: true,
+      lastActivityDay: '2024-01-03',
+      streakFreezes: 0,
+      frozenDay: '2024-01-02',
+    });
+  });
+
+  it('breaks the streak after a rest day without a freeze', () => {
+    expect(updateStreak('2024-01-01', 4, '2024-01-03')).toMatchObject({
+      streakCount: 1,
+      streakActive: false,
+      lastActivityDay: '2024-01-03',
+    });
+  });
+
+  it('counts consecutive local days across a 23-hour DST day', () => {
+    const timezone = '(GMT-05:00) America/New_York';
+    const saturday = makeActivity({
+      start_date: '2024-03-10T04:30:00Z',
+      start_date_local: '2024-03-09T23:30:00Z',
+      timezone,
+    });
+    // 23 hours later, but on the next local day
+    const sunday = makeActivity({
+      start_date: '2024-03-11T03:30:00Z',
+      start_date_local: '2024-03-10T23:30:00Z',
+      timezone,
+    });
+
+    expect(
+      updateStreak(getActivityLocalDay(saturday), 2, getActivityLocalDay(sunday)),
+    ).toMatchObject({ streakCount: 3, lastActivityDay: '2024-03-10' });
+  });
+
+  it('keeps the streak when travelling west lands on an earlier local day', () => {
+    // Morning in Tokyo, then an evening run in Los Angeles six hours later
+    const tokyo = makeActivity({
+      start_date: '2024-05-01T23:00:00Z',
+      start_date_local: '2024-05-02T08:00:00Z',
+      timezone: '(GMT+09:00) Asia/Tokyo',
+    });
+    const losAngeles = makeActivity({
+      start_date: '2024-05-02T05:00:00Z',
+      start_date_local: '2024-05-01T22:00:00Z',
+      timezone: '(GMT-08:00) America/Los_Angeles',
+    });
+
+    expect(
+      updateStreak(getActivityLocalDay(tokyo), 3, getActivityLocalDay(losAngeles)),
+    ).toMatchObject({ streakCount: 3, streakActive: true, lastActivityDay: '2024-05-02' });
+  });
+
+  it('bridges the local day skipped when travelling east with a freeze', () => {
+    // Evening in Los Angeles, then a run in Tokyo the next local morning
+    const losAngeles = makeActivity({
+      start_date: '2024-05-02T03:00:00Z',
+      start_date_local: '2024-05-01T20:00:00Z',
+      timezone: '(GMT-08:00) America/Los_Angeles',
+    });
+    const tokyo = makeActivity({
+      start_date: '2024-05-02T22:00:00Z',
+      start_date_local: '2024-05-03T07:00:00Z',
+      timezone: '(GMT+09:00) Asia/Tokyo',
+    });
+
+    // The flight crosses the date line, so the local days are two apart
+    expect(
+      updateStreak(getActivityLocalDay(losAngeles), 3, getActivityLocalDay(tokyo), 1),
+    ).toMatchObject({ streakCount: 4, frozenDay: '2024-05-02' });
+  });
+});
+
+describe('isStreakExpired', () => {
+  function makeGame(overrides: Partial<GameProfile>): GameProfile {
+    return {
+      ...getInitialGameProfile(),
+      streakCount: 5,
+      streakActive: true,
+      lastActivityDay: '2024-01-01',
+      ...overrides,
+    };
+  }
+
+  const noon = (day: string) => new Date(`${day}T12:00:00Z`);
+
+  it('keeps a streak that can continue today', () => {
+    expect(isStreakExpired(makeGame({}), noon('2024-01-02'))).toBe(false);
+  });
+
+  it('expires a streak after a missed day without a freeze', () => {
+    expect(isStreakExpired(makeGame({}), noon('2024-01-03'))).toBe(true);
+  });
+
+  it('keeps a streak a freeze can still bridge', () => {
+    expect(isStreakExpired(makeGame({ streakFreezes: 1 }), noon('2024-01-03'))).toBe(false);
+  });
+
+  it('expires a streak after two missed days even with a freeze', () => {
+    expect(isStreakExpired(makeGame({ streakFreezes: 2 }), noon('2024-01-04'))).toBe(true);
+  });
+
+  it("uses the athlete's local day", () => {
+    // 02:00 UTC on January 3rd is still January 2nd in Los Angeles
+    const now = new Date('2024-01-03T02:00:00Z');
+
+    expect(isStreakExpired(makeGame({ timezone: 'America/Los_Angeles' }), now)).toBe(false);
+    expect(isStreakExpired(makeGame({}), now)).toBe(true);
+  });
+
+  it('ignores profiles without a streak', () => {
+    expect(isStreakExpired(makeGame({ streakCount: 0 }), noon('2024-02-01'))).toBe(false);
+  });
+});
+
+describe('replayActivities', () => {
+  // Four consecutive days of running, plus a ride on the last day
+  const activities = [
+    makeActivity({ id: 1, start_date: '2024-01-01T08:00:00Z', start_date_local: '' }),
+    makeActivity({ id: 2, start_date: '2024-01-02T08:00:00Z', start_date_local: '' }),
+    makeActivity({ id: 3, start_date: '2024-01-03T08:00:00Z', start_date_local: '' }),
+    makeActivity({ id: 5, start_date: '2024-01-04T08:00:00Z', start_date_local: '' }),
+    makeActivity({
+      id: 4,
+      type: 'Ride',
+      sport_type: 'Ride',
+      distance: 20000,
+      start_date: '2024-01-04T08:00:00Z',
+      start_date_local: '',
+    }),
+  ];
+
+  it('gives the same result whatever order activities are read in', () => {
+    const result = replayActivities(activities, DEFAULT_XP_RULES, {});
+
+    expect(replayActivities([...activities].reverse(), DEFAULT_XP_RULES, {})).toEqual(result);
+    expect(result.activities.map(({ activity }) => activity.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(result.game).toMatchObject({ streakCount: 4, lastActivityDay: '2024-01-04' });
+    expect(result.stats.activitiesCount).toBe(5);
+  });
+
+  it('earns nothing for withheld and duplicate activities', () => {
+    const withheld = makeActivity({
+      id: 6,
+      start_date: '2024-01-05T08:00:00Z',
+      antiCheat: { status: 'pending_review', flags: [], checkedAt: Timestamp.now() },
+    });
+    const duplicate = makeActivity({ id: 7, start_date: '2024-01-04T08:01:00Z', duplicateOf: 5 });
+
+    expect(replayActivities([...activities, withheld, duplicate], DEFAULT_XP_RULES, {})).toEqual(
+      replayActivities(activities, DEFAULT_XP_RULES, {}),
+    );
+  });
+});
+
+describe('XP history cursor', () => {
+  it('round-trips the creation time to the nanosecond and the entry ID', () => {
+    const createdAt = new Timestamp(1704110400, 123456789);
+
+    expect(decodeXPHistoryCursor(encodeXPHistoryCursor(createdAt, 'user1_000000042'))).toEqual([
+      createdAt,
+      'user1_000000042',
+    ]);
+  });
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  it.each([
+    ['not base64 JSON', 'not a cursor'],
+    ['a missing entry ID', encode([1704110400, 0])],
+    ['an empty entry ID', encode([1704110400, 0, ''])],
+    ['nanoseconds out of range', encode([1704110400, 1e9, 'entry'])],
+    ['fractional seconds', encode([1704110400.5, 0, 'entry'])],
+    ['an object', encode({ seconds: 1704110400, nanoseconds: 0, id: 'entry' })],
+  ])('rejects %s', (_name, cursor) => {
+    expect(() => decodeXPHistoryCursor(cursor)).toThrow(HttpsError);
+    expect(() => decodeXPHistoryCursor(cursor)).toThrow('cursor is invalid.');
+  });
+});
+
+describe('calculatePowerXP', () => {
+  // An hour's ride with power meter data, 720 kJ at 200 W average
+  const ride = makeActivity({
+    type: 'Ride',
+    sport_type: 'Ride',
+    moving_time: 3600,
+    average_watts: 200,
+    weighted_average_watts: 200,
+    kilojoules: 720,
+    device_watts: true,
+  });
+
+  it('prices on training stress when the athlete has set an FTP', () => {
+    // Riding at FTP for an hour is 100 TSS
+    expect(calculatePowerXP(ride, { ftp: 200 })).toBe(100 * 12);
+  });
+
+  it('caps training stress per hour for rides above FTP', () => {
+    // Intensity 1.2 would be 144 TSS, capped at 120
+    expect(calculatePowerXP(ride, { ftp: 167 })).toBe(120 * 12);
+  });
+
+  it.each([
+    // Normalized power up to 1.5 times FTP is plausible, beyond it the FTP is ignored
+    [134, 120 * 12],
+    [133, 720 * 1.25],
+  ])('with an FTP of %i W, prices an intense ride at %i XP', (ftp, xp) => {
+    expect(calculatePowerXP(ride, { ftp })).toBe(xp);
+  });
+
+  it('falls back to kilojoules when the FTP is far below the ride', () => {
+    // Intensity 4 would be 1600 TSS and 19,200 XP
+    expect(calculatePowerXP(ride, { ftp: 50 })).toBe(720 * 1.25);
+  });
+
+  it('prices on kilojoules without an FTP', () => {
+    expect(calculatePowerXP(ride, {})).toBe(720 * 1.25);
+  });
+
+  it('ignores estimated power', () => {
+    expect(calculatePowerXP({ ...ride, device_watts: false }, { ftp: 200 })).toBeNull();
+  });
+
+  it('returns null without power or work data', () => {
+    const noData = makeActivity({ device_watts: true });
+
+    expect(calculatePowerXP(noData, {})).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+import { StravaWebhookEvent } from '@endu/shared/types';
+import { AxiosError, AxiosHeaders } from 'axios';
+
+import type {
+  processStravaWebhookEvent as ProcessStravaWebhookEvent,
+  stravaWebhook as StravaWebhook,
+} from '../strava/webhooks';
+
+// Rejected events are logged as warnings
+jest.mock('firebase-functions/logger');
+
+// In-memory stand-in for the Firestore calls the webhook endpoint makes, keyed by document path
+const mockDocs = new Map<string, unknown>();
+
+function mockDocRef(path: string) {
+  return {
+    path,
+    async get() {
+      const data = mockDocs.get(path);
+      return { exists: data !== undefined, data: () => data };
+    },
+    async set(data: unknown) {
+      mockDocs.set(path, data);
+    },
+    async create(data: unknown) {
+      if (mockDocs.has(path)) {
+        throw Object.assign(new Error('Document already exists'), { code: 6 });
+      }
+      mockDocs.set(path, data);
+    },
+    async update(data: object) {
+      mockDocs.set(path, { ...(mockDocs.get(path) as object), ...data });
+    },
+  };
+}
+
+jest.mock('../admin', () => ({
+  db: {
+    collection: (name: string) => ({ doc: (id: string) => mockDocRef(`${name}/${id}`) }),
+    runTransaction: async (
+      update: (transaction: {
+        get: (ref: ReturnType<typeof mockDocRef>) => unknown;
+        set: (ref: ReturnType<typeof mockDocRef>, data: unknown) => void;
+        update: (ref: ReturnType<typeof mockDocRef>, data: object) => void;
+      }) => unknown,
+    ) =>
+      update({
+        get: (ref) => ref.get(),
+        set: (ref, data) => mockDocs.set(ref.path, data),
+        update: (ref, data) => ref.update(data),
+      }),
+  },
+}));
+
+// Strava athlete that never connected to the app
+const mockUnconnectedOwnerId = 99;
+
+// Every other athlete is connected as user-<their Strava ID>
+jest.mock('../strava/strava', () => ({
+  ...jest.requireActual('../strava/strava'),
+  getUserIdByStravaId: jest.fn(async (stravaId: number) =>
+    stravaId === mockUnconnectedOwnerId ? null : `user-${stravaId}`,
+  ),
+  fetchStravaActivity: jest.fn(),
+}));
+
+const NOW = Date.UTC(2024, 0, 1, 12, 0, 30);
+const SUBSCRIPTION_ID = 1234;
+
+let stravaWebhook: typeof StravaWebhook;
+let processStravaWebhookEvent: typeof ProcessStravaWebhookEvent;
+let fetchStravaActivity: jest.Mock;
+let nextObjectId = 1;
+
+function makeEvent(overrides: Partial<StravaWebhookEvent> = {}): StravaWebhookEvent {
+  return {
+    object_id: nextObjectId++,
+    object_type: 'activity',
+    aspect_type: 'create',
+    owner_id: 42,
+    event_time: Math.floor(NOW / 1000),
+    subscription_id: SUBSCRIPTION_ID,
+    ...overrides,
+  };
+}
+
+/**
+ * Sends a POST to the webhook endpoint
+ * @returns The response status and body
+ */
+async function post(body: unknown, ip = '203.0.113.1') {
+  const result = { status: 0, body: undefined as unknown };
+  const response = {
+    status(code: number) {
+      result.status = code;
+      return response;
+    },
+    send(sent: unknown) {
+      result.body = sent;
+      return response;
+    },
+    json(sent: unknown) {
+      result.body = sent;
+      return response;
+    },
+  };
+  const request = { method: 'POST', ip, body, query: {}, headers: {}, header: () => undefined };
+
+  await stravaWebhook(request as never, response as never);
+  return result;
+}
+
+function makeStravaError(status: number): AxiosError {
+  return new AxiosError('Request failed', undefined, undefined, undefined, {
+    status,
+    statusText: '',
+    data: {},
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+}
+
+/**
+ * Stores an event through the endpoint, then runs the trigger that processes it
+ * @returns The stored event after processing
+ */
+async function receiveAndProcess(event: StravaWebhookEvent) {
+  expect((await post(event)).status).toBe(200);
+
+  const eventId = `${event.object_type}_${event.object_id}_${event.aspect_type}_${event.event_time}`;
+  await processStravaWebhookEvent.run({ params: { eventId } } as never);
+  return mockDocs.get(`webhookEvents/${eventId}`);
+}
+
+function getStoredEvents() {
+  return [...mockDocs.keys()].filter((path) => path.startsWith('webhookEvents/'));
+}
+
+beforeAll(async () => {
+  // The throttles read the clock when they are created, so fake it before loading the module
+  jest.useFakeTimers({ now: NOW });
+  ({ stravaWebhook, processStravaWebhookEvent } = await import('../strava/webhooks'));
+  fetchStravaActivity = jest.mocked((await import('../strava/strava')).fetchStravaActivity);
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  fetchStravaActivity.mockReset();
+  mockDocs.clear();
+  mockDocs.set('stravaApi/webhookSubscription', { id: SUBSCRIPTION_ID });
+});
+
+describe('stravaWebhook POST', () => {
+  it('stores a valid event for processing', async () => {
+    const event = makeEvent();
+
+    expect(await post(event)).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+    expect(
+      mockDocs.get(`webhookEvents/activity_${event.object_id}_create_${event.event_time}`),
+    ).toMatchObject({ event, status: 'pending', attempts: 0 });
+  });
+
+  it.each([
+    ['an empty body', undefined],
+    ['missing fields', { object_id: 1, object_type: 'activity' }],
+    ['an unknown object type', makeEvent({ object_type: 'club' as never })],
+    ['an unknown aspect type', makeEvent({ aspect_type: 'archive' as never })],
+    ['a non-numeric owner', { ...makeEvent(), owner_id: '42' }],
+  ])('rejects %s with 400', async (_name, body) => {
+    expect(await post(body)).toEqual({ status: 400, body: 'INVALID_EVENT' });
+    expect(getStoredEvents()).toHaveLength(0);
+  });
+
+  it('rejects an event for another subscription with 403', async () => {
+    expect(await post(makeEvent({ subscription_id: SUBSCRIPTION_ID + 1 }))).toEqual({
+      status: 403,
+      body: 'UNKNOWN_SUBSCRIPTION',
+    });
+    expect(getStoredEvents()).toHaveLength(0);
+  });
+
+  it.each([
+    ['more than an hour old', -61 * 60],
+    ['more than five minutes in the future', 6 * 60],
+  ])('rejects an event_time %s with 400', async (_name, offsetSeconds) => {
+    const event = makeEvent({ event_time: Math.floor(NOW / 1000) + offsetSeconds });
+
+    expect(await post(event)).toEqual({ status: 400, body: 'STALE_EVENT' });
+    expect(getStoredEvents()).toHaveLength(0);
+  });
+
+  it('allows an event_time within the clock skew', async () => {
+    const event = makeEvent({ event_time: Math.floor(NOW / 1000) + 60 });
+
+    expect(await post(event)).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+  });
+
+  it('acknowledges a duplicate delivery and stores it once', async () => {
+    const event = makeEvent();
+
+    expect(await post(event)).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+    expect(await post(event)).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+    expect(getStoredEvents()).toEqual([
+      `webhookEvents/activity_${event.object_id}_create_${event.event_time}`,
+    ]);
+  });
+
+  it('throttles events for one athlete with 429', async () => {
+    for (let i = 0; i < 60; i++) {
+      expect((await post(makeEvent({ owner_id: 7 }))).status).toBe(200);
+    }
+
+    expect(await post(makeEvent({ owner_id: 7 }))).toEqual({
+      status: 429,
+      body: 'TOO_MANY_REQUESTS',
+    });
+    expect(getStoredEvents()).toHaveLength(60);
+
+    // Other athletes are unaffected
+    expect((await post(makeEvent({ owner_id: 8 }))).status).toBe(200);
+  });
+
+  it('does not count events for athletes that never connected', async () => {
+    for (let i = 0; i < 60; i++) {
+      await post(makeEvent({ owner_id: mockUnconnectedOwnerId }));
+    }
+
+    expect((await post(makeEvent({ owner_id: mockUnconnectedOwnerId }))).status).toBe(200);
+    expect(
+      [...mockDocs.keys()].filter((path) => path.startsWith('requestThrottles/')),
+    ).toHaveLength(0);
+  });
+
+  it('throttles requests from one address with 429', async () => {
+    const ip = '198.51.100.7';
+    for (let i = 0; i < 600; i++) {
+      await post(undefined, ip);
+    }
+
+    expect(await post(makeEvent(), ip)).toEqual({ status: 429, body: 'TOO_MANY_REQUESTS' });
+    expect(getStoredEvents()).toHaveLength(0);
+
+    // Other addresses are unaffected
+    expect((await post(makeEvent(), '198.51.100.8')).status).toBe(200);
+  });
+});
+
+describe('processStravaWebhookEvent', () => {
+  it('marks a create event processed once the activity is stored', async () => {
+    fetchStravaActivity.mockResolvedValueOnce(undefined);
+
+    expect(await receiveAndProcess(makeEvent())).toMatchObject({
+      status: 'processed',
+      attempts: 1,
+    });
+    expect(fetchStravaActivity).toHaveBeenCalledWith('user-42', expect.any(Number));
+  });
+
+  it.each([
+    ['deleted', 404],
+    ['private', 403],
+  ])('drops a create event for a %s activity without retrying', async (_name, status) => {
+    fetchStravaActivity.mockRejectedValueOnce(makeStravaError(status));
+
+    expect(await receiveAndProcess(makeEvent())).toMatchObject({
+      status: 'processed',
+      attempts: 1,
+    });
+    expect(fetchStravaActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a create event when Strava fails', async () => {
+    fetchStravaActivity.mockRejectedValueOnce(makeStravaError(500));
+
+    expect(await receiveAndProcess(makeEvent())).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Request failed',
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { AchievementDefinition } from '@endu/shared/types';
+
+export const ACHIEVEMENT_CONFIG = {
+  MARATHON_DISTANCE: 42195, // meters, single run
+  CYCLING_TOTAL_DISTANCE: 1000000, // meters, cumulative
+  ELEVATION_TOTAL: 10000, // meters, cumulative
+  STREAK_DAYS: 30,
+  SWIM_DISTANCE: 5000, // meters, single swim
+};
+
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'first_marathon',
+    title: 'Marathoner',
+    description: 'Complete a run of marathon distance',
+    icon: '🏃',
+  },
+  {
+    id: 'cycling_1000km',
+    title: 'Road Warrior',
+    description: 'Ride 1000 km in total',
+    icon: '🚴',
+  },
+  {
+    id: 'elevation_10000m',
+    title: 'Mountain Goat',
+    description: 'Climb 10 000 m in total',
+    icon: '⛰️',
+  },
+  {
+    id: 'streak_30_days',
+    title: 'Unstoppable',
+    description: 'Keep a 30-day activity streak',
+    icon: '🔥',
+  },
+  {
+    id: 'swim_5km',
+    title: 'Open Water',
+    description: 'Swim 5 km in a single session',
+    icon: '🏊',
+  },
+];
@@ -0,0 +1,169 @@
+import { emptyDataSchema } from '@endu/shared/schemas';
+import {
+  AchievementId,
+  AchievementsResponse,
+  GameProfile,
+  StoredActivity,
+  StravaActivity,
+  UserAchievements,
+  UserStats,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
+import { Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { db } from '../admin';
+import { isCounted } from '../anticheat/duplicates';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { GAME_CONFIG } from '../game/game.config';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { ACHIEVEMENT_CONFIG, ACHIEVEMENT_DEFINITIONS } from './achievements.config';
+
+interface AchievementContext {
+  activity: StravaActivity;
+  stats: UserStats;
+  game: GameProfile;
+}
+
+const ACHIEVEMENT_CHECKS: Record<AchievementId, (context: AchievementContext) => boolean> = {
+  first_marathon: ({ activity }) =>
+    GAME_CONFIG.RUNNING_TYPES.includes(activity.type) &&
+    activity.distance >= ACHIEVEMENT_CONFIG.MARATHON_DISTANCE,
+  cycling_1000km: ({ stats }) =>
+    (stats.cyclingDistance ?? 0) >= ACHIEVEMENT_CONFIG.CYCLING_TOTAL_DISTANCE,
+  elevation_10000m: ({ stats }) => stats.totalElevationGain >= ACHIEVEMENT_CONFIG.ELEVATION_TOTAL,
+  streak_30_days: ({ game }) => game.streakCount >= ACHIEVEMENT_CONFIG.STREAK_DAYS,
+  swim_5km: ({ activity }) =>
+    GAME_CONFIG.SWIM_TYPES.includes(activity.type) &&
+    activity.distance >= ACHIEVEMENT_CONFIG.SWIM_DISTANCE,
+};
+
+/**
+ * Sums the cycling distance of the activities that count
+ */
+function sumCyclingDistance(activities: StoredActivity[]): number {
+  return activities
+    .filter((activity) => isCounted(activity) && GAME_CONFIG.CYCLING_TYPES.includes(activity.type))
+    .reduce((sum, activity) => sum + activity.distance, 0);
+}
+
+/**
+ * Returns the achievements newly unlocked in the given context
+ */
+export function findNewAchievements(
+  unlocked: UserAchievements['unlocked'],
+  context: AchievementContext,
+): AchievementId[] {
+  return ACHIEVEMENT_DEFINITIONS.map((definition) => definition.id).filter(
+    (id) => !unlocked[id] && ACHIEVEMENT_CHECKS[id](context),
+  );
+}
+
+/**
+ * Evaluates achievements for a newly stored activity
+ * Must run after the game profile and stats include the activity
+ * @param userId - Firebase user ID
+ * @param activity - Strava activity that was just stored
+ * @returns IDs of newly unlocked achievements
+ */
+export async function evaluateAchievements(
+  userId: string,
+  activity: StravaActivity,
+): Promise<AchievementId[]> {
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  const achievementsRef = db.collection(FIRESTORE_COLLECTIONS.USER_ACHIEVEMENTS).doc(userId);
+
+  const newlyUnlocked = await db.runTransaction(async (transaction) => {
+    const [userDoc, achievementsDoc] = await transaction.getAll(userRef, achievementsRef);
+
+    if (!userDoc.exists) {
+      logger.error(`User ${userId} not found`);
+      return [];
+    }
+
+    const userData = userDoc.data();
+    const existing = achievementsDoc.data() as UserAchievements | undefined;
+    const unlocked = existing?.unlocked ?? {};
+    let stats = userData?.stats as UserStats;
+
+    // Stats from before cycling distance was tracked get it derived once from stored activities
+    if (stats.cyclingDistance === undefined) {
+      const activitiesSnapshot = await transaction.get(
+        db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES).where('userId', '==', userId),
+      );
+      stats = {
+        ...stats,
+        cyclingDistance: sumCyclingDistance(
+          activitiesSnapshot.docs.map((doc) => doc.data() as StoredActivity),
+        ),
+      };
+      transaction.update(userRef, { 'stats.cyclingDistance': stats.cyclingDistance });
+    }
+
+    const newIds = findNewAchievements(unlocked, {
+      activity,
+      stats,
+      game: userData?.game as GameProfile,
+    });
+
+    const unlockedAt = Timestamp.now();
+    const userAchievements: UserAchievements = {
+      userId,
+      unlocked: {
+        ...unlocked,
+        ...Object.fromEntries(newIds.map((id) => [id, { unlockedAt, activityId: activity.id }])),
+      },
+      updatedAt: Timestamp.now(),
+    };
+    transaction.set(achievementsRef, userAchievements);
+
+    return newIds;
+  });
+
+  if (newlyUnlocked.length > 0) {
+    logger.info(`User ${userId} unlocked achievement(s): ${newlyUnlocked.join(', ')}`);
+  }
+
+  return newlyUnlocked;
+}
+
+// ============================================================================
+// EXPORTED CLOUD FUNCTIONS
+// ============================================================================
+
+/**
+ * Gets all achievements with the current user's unlock state
+ */
+export const getAchievements = onCall(async (request): Promise<AchievementsResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  parseData(emptyDataSchema, request.data);
+
+  const userId = request.auth.uid;
+
+  try {
+    const achievementsDoc = await db
+      .collection(FIRESTORE_COLLECTIONS.USER_ACHIEVEMENTS)
+      .doc(userId)
+      .get();
+    const unlocked = (achievementsDoc.data() as UserAchievements | undefined)?.unlocked ?? {};
+
+    return {
+      status: 'success',
+      achievements: ACHIEVEMENT_DEFINITIONS.map((definition) => {
+        const entry = unlocked[definition.id];
+        return {
+          ...definition,
+          unlocked: !!entry,
+          unlockedAt: entry ? toDate(entry.unlockedAt).toISOString() : null,
+        };
+      }),
+    };
+  } catch (error) {
+    handleError(error, 'Error getting achievements:', 'Failed to get achievements.');
+  }
+});
@@ -0,0 +1,49 @@
+import { AntiCheatReasonCode, AntiCheatSeverity } from '@endu/shared/types';
+
+import { GAME_CONFIG } from '../game/game.config';
+
+export interface SpeedLimit {
+  types: string[]; // Matched on sport_type, then legacy type
+  maxAverageKmh: number; // Max plausible average speed over moving time
+  maxTopKmh: number; // Max plausible max_speed
+}
+
+export const ANTI_CHEAT_CONFIG = {
+  // Per-sport speed limits; activities of unlisted types aren't speed checked
+  SPEED_LIMITS: [
+    { types: GAME_CONFIG.RUNNING_TYPES, maxAverageKmh: 25, maxTopKmh: 45 },
+    { types: GAME_CONFIG.WALKING_TYPES, maxAverageKmh: 12, maxTopKmh: 30 },
+    { types: ['EBikeRide', 'EMountainBikeRide'], maxAverageKmh: 45, maxTopKmh: 90 },
+    { types: GAME_CONFIG.CYCLING_TYPES, maxAverageKmh: 55, maxTopKmh: 110 },
+    { types: GAME_CONFIG.SWIM_TYPES, maxAverageKmh: 8, maxTopKmh: 15 },
+    { types: GAME_CONFIG.XC_SKI_TYPES, maxAverageKmh: 35, maxTopKmh: 90 },
+    { types: GAME_CONFIG.PADDLE_TYPES, maxAverageKmh: 20, maxTopKmh: 35 },
+    { types: GAME_CONFIG.SKATE_TYPES, maxAverageKmh: 40, maxTopKmh: 70 },
+  ] as SpeedLimit[],
+
+  MAX_ELEVATION_M_PER_KM: 400, // Steeper on average than a vertical-kilometre race
+  ELEVATION_MIN_DISTANCE_M: 1000, // Shorter activities aren't elevation checked
+
+  MIN_MOVING_ELAPSED_RATIO: 0.2, // Moving less than 20% of the elapsed time
+  MIN_RATIO_ELAPSED_S: 2 * 60 * 60, // Only for activities longer than 2 hours
+
+  EBIKE_MIN_AVERAGE_KMH: 28, // A 'Ride' this fast while climbing ...
+  EBIKE_MIN_M_PER_KM: 10, // ... at least this steeply looks motor-assisted
+
+  OVERLAP_LOOKBACK_MS: 24 * 60 * 60 * 1000, // How far back to look for overlapping activities
+
+  // Overlapping activities matching all of these are the same workout recorded twice
+  DUPLICATE_MIN_OVERLAP_RATIO: 0.8, // Share of the shorter activity's time window
+  DUPLICATE_MAX_DISTANCE_DIFF: 0.15, // Relative to the longer distance
+  DUPLICATE_MAX_ENDPOINT_M: 500, // Between route starts and ends, when both have a polyline
+
+  SEVERITY: {
+    speed_limit: 'block',
+    max_speed_limit: 'block',
+    manual_entry: 'warning',
+    elevation_per_km: 'block',
+    overlapping_activity: 'warning',
+    elapsed_moving_ratio: 'warning',
+    possible_ebike: 'warning',
+  } as Record<AntiCheatReasonCode, AntiCheatSeverity>,
+};
@@ -0,0 +1,456 @@
+import { getReviewQueueDataSchema, resolveActivityReviewDataSchema } from '@endu/shared/schemas';
+import {
+  ActivityAntiCheat,
+  ActivityReview,
+  AntiCheatFlag,
+  AntiCheatReasonCode,
+  AntiCheatSeverity,
+  ManualActivityPolicy,
+  ReviewQueueResponse,
+  StoredActivity,
+  StravaActivity,
+  SuccessResponse,
+  UserProfile,
+  XPCalculationResult,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { evaluateAchievements } from '../achievements/achievements';
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { awardActivityXP, getAthleteProfile } from '../game/game';
+import { loadXPRules } from '../game/rules';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { updateQuestProgress } from '../quests/quests';
+import { applyActivityToStats } from '../strava/strava';
+import { ANTI_CHEAT_CONFIG } from './anticheat.config';
+import { findDuplicatesOf, promoteDuplicate } from './duplicates';
+
+// Default number of reviews returned per admin call
+const DEFAULT_QUEUE_LIMIT = 50;
+
+interface AntiCheatContext {
+  overlapping: StravaActivity[]; // Other activities of the user overlapping in time
+  manualPolicy: ManualActivityPolicy; // 'review' makes manual entries blocking
+}
+
+interface AntiCheatCheck {
+  code: AntiCheatReasonCode;
+  /** Returns a human-readable reason when the activity fails the check */
+  check: (activity: StravaActivity, context: AntiCheatContext) => string | null;
+}
+
+/**
+ * Converts meters per second to km/h
+ */
+function toKmh(metersPerSecond: number): number {
+  return metersPerSecond * 3.6;
+}
+
+/**
+ * Finds the speed limit for an activity, matching sport_type first and the legacy type second
+ */
+function findSpeedLimit(activity: StravaActivity) {
+  const limits = ANTI_CHEAT_CONFIG.SPEED_LIMITS;
+  return (
+    limits.find((limit) => limit.types.includes(activity.sport_type)) ??
+    limits.find((limit) => limit.types.includes(activity.type))
+  );
+}
+
+/**
+ * Gets an activity's time window in milliseconds since epoch
+ */
+export function getActivityWindow(activity: StravaActivity): { start: number; end: number } {
+  const start = new Date(activity.start_date).getTime();
+  return { start, end: start + activity.elapsed_time * 1000 };
+}
+
+/**
+ * Registered plausibility checks; add an entry here (and a severity in the config) to extend
+ */
+const ANTI_CHEAT_CHECKS: AntiCheatCheck[] = [
+  {
+    code: 'speed_limit',
+    check: (activity) => {
+      const limit = findSpeedLimit(activity);
+      if (!limit || activity.distance === 0 || activity.moving_time === 0) return null;
+
+      const averageKmh = activity.distance / 1000 / (activity.moving_time / 3600);
+      return averageKmh > limit.maxAverageKmh
+        ? `Average speed ${averageKmh.toFixed(1)} km/h exceeds ${limit.maxAverageKmh} km/h`
+        : null;
+    },
+  },
+  {
+    code: 'max_speed_limit',
+    check: (activity) => {
+      const limit = findSpeedLimit(activity);
+      if (!limit || !activity.max_speed) return null;
+
+      const topKmh = toKmh(activity.max_speed);
+      return topKmh > limit.maxTopKmh
+        ? `Max speed ${topKmh.toFixed(1)} km/h exceeds ${limit.maxTopKmh} km/h`
+        : null;
+    },
+  },
+  {
+    code: 'manual_entry',
+    check: (activity) => (activity.manual ? 'Entered manually' : null),
+  },
+  {
+    code: 'elevation_per_km',
+    check: (activity) => {
+      if (activity.distance < ANTI_CHEAT_CONFIG.ELEVATION_MIN_DISTANCE_M) return null;
+
+      const metersPerKm = activity.total_elevation_gain / (activity.distance / 1000);
+      return metersPerKm > ANTI_CHEAT_CONFIG.MAX_ELEVATION_M_PER_KM
+        ? `Climbing ${Math.round(metersPerKm)} m/km exceeds ${ANTI_CHEAT_CONFIG.MAX_ELEVATION_M_PER_KM} m/km`
+        : null;
+    },
+  },
+  {
+    code: 'overlapping_activity',
+    check: (_activity, { overlapping }) =>
+      overlapping.length > 0
+        ? `Overlaps ${overlapping.map((other) => `"${other.name}"`).join(', ')}`
+        : null,
+  },
+  {
+    code: 'elapsed_moving_ratio',
+    check: (activity) => {
+      if (activity.moving_time > activity.elapsed_time) {
+        return 'Moving time is longer than elapsed time';
+      }
+      if (activity.elapsed_time < ANTI_CHEAT_CONFIG.MIN_RATIO_ELAPSED_S) return null;
+
+      const ratio = activity.moving_time / activity.elapsed_time;
+      return ratio < ANTI_CHEAT_CONFIG.MIN_MOVING_ELAPSED_RATIO
+        ? `Moving only ${Math.round(ratio * 100)}% of elapsed time`
+        : null;
+    },
+  },
+  {
+    code: 'possible_ebike',
+    check: (activity) => {
+      if (activity.sport_type !== 'Ride' || activity.distance === 0) return null;
+
+      const averageKmh = toKmh(activity.average_speed);
+      const metersPerKm = activity.total_elevation_gain / (activity.distance / 1000);
+      return averageKmh >= ANTI_CHEAT_CONFIG.EBIKE_MIN_AVERAGE_KMH &&
+        metersPerKm >= ANTI_CHEAT_CONFIG.EBIKE_MIN_M_PER_KM
+        ? `Averaged ${averageKmh.toFixed(1)} km/h while climbing ${Math.round(metersPerKm)} m/km`
+        : null;
+    },
+  },
+];
+
+/**
+ * Gets the severity of a failed check; manual entries block when the policy requires review
+ */
+function getSeverity(code: AntiCheatReasonCode, context: AntiCheatContext): AntiCheatSeverity {
+  if (code === 'manual_entry' && context.manualPolicy.mode === 'review') {
+    return 'block';
+  }
+  return ANTI_CHEAT_CONFIG.SEVERITY[code];
+}
+
+/**
+ * Runs all plausibility checks on an activity
+ * Blocking flags put the activity in the review queue; warnings are only recorded
+ */
+export function evaluateAntiCheat(
+  activity: StravaActivity,
+  context: AntiCheatContext,
+): ActivityAntiCheat {
+  const flags: AntiCheatFlag[] = [];
+
+  for (const { code, check } of ANTI_CHEAT_CHECKS) {
+    const message = check(activity, context);
+    if (message) {
+      flags.push({ code, severity: getSeverity(code, context), message });
+    }
+  }
+
+  const status = flags.some((flag) => flag.severity === 'block')
+    ? 'pending_review'
+    : flags.length > 0
+      ? 'flagged'
+      : 'clear';
+
+  return { status, flags, checkedAt: Timestamp.now() };
+}
+
+/**
+ * Finds the user's stored activities whose time window overlaps the given activity
+ * @param transaction - Reads the activities in this transaction, so one stored meanwhile
+ *   (e.g. the same workout uploaded from another device) makes it retry
+ */
+export async function findOverlappingActivities(
+  userId: string,
+  activity: StravaActivity,
+  transaction?: Transaction,
+): Promise<StoredActivity[]> {
+  const { start, end } = getActivityWindow(activity);
+
+  const query = db
+    .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+    .where('userId', '==', userId)
+    .where(
+      'start_date',
+      '>=',
+      new Date(start - ANTI_CHEAT_CONFIG.OVERLAP_LOOKBACK_MS).toISOString(),
+    )
+    .where('start_date', '<', new Date(end).toISOString())
+    .orderBy('start_date', 'desc');
+  const snapshot = await (transaction ? transaction.get(query) : query.get());
+
+  return snapshot.docs
+    .map((doc) => doc.data() as StoredActivity)
+    .filter((other) => {
+      if (other.id === activity.id) return false;
+      const window = getActivityWindow(other);
+      return window.start < end && start < window.end;
+    });
+}
+
+/**
+ * Runs the anti-cheat checks on a new activity and logs any flags
+ * @param userId - Firebase user ID
+ * @param activity - Strava activity about to be stored
+ * @param overlapping - The user's stored activities overlapping it in time
+ * @param manualPolicy - Manual activity policy from the XP rules
+ */
+export function runAntiCheat(
+  userId: string,
+  activity: StravaActivity,
+  overlapping: StoredActivity[],
+  manualPolicy: ManualActivityPolicy,
+): ActivityAntiCheat {
+  const result = evaluateAntiCheat(activity, { overlapping, manualPolicy });
+
+  if (result.flags.length > 0) {
+    logger.warn(
+      `Anti-cheat flagged activity ${activity.id} for user ${userId} (${result.status}): ` +
+        result.flags.map((flag) => flag.code).join(', '),
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Whether an activity's XP and stats are withheld by anti-cheat
+ */
+export function isWithheld(activity: StravaActivity): boolean {
+  const status = activity.antiCheat?.status;
+  return status === 'pending_review' || status === 'rejected';
+}
+
+/**
+ * Builds the review queue entry for an activity held by anti-cheat
+ */
+export function buildActivityReview(userId: string, activity: StravaActivity): ActivityReview {
+  return {
+    userId,
+    activityId: activity.id,
+    activityName: activity.name,
+    sportType: activity.sport_type,
+    flags: activity.antiCheat?.flags ?? [],
+    status: 'pending',
+    createdAt: Timestamp.now(),
+  };
+}
+
+// ============================================================================
+// EXPORTED CLOUD FUNCTIONS
+// ============================================================================
+
+/**
+ * Admin: lists activities waiting for anti-cheat review, oldest first
+ * Requires the `admin` custom claim
+ */
+export const getReviewQueue = onCall(async (request): Promise<ReviewQueueResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  if (request.auth.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Admin privileges required.');
+  }
+
+  const { limit = DEFAULT_QUEUE_LIMIT, startAfter } = parseData(
+    getReviewQueueDataSchema,
+    request.data,
+  );
+
+  try {
+    let query = db
+      .collection(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS)
+      .where('status', '==', 'pending')
+      .orderBy('createdAt', 'asc')
+      .limit(limit);
+    if (startAfter) {
+      const cursorDoc = await db
+        .collection(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS)
+        .doc(startAfter)
+        .get();
+      query = query.startAfter(cursorDoc);
+    }
+
+    const snapshot = await query.get();
+    const reviews = snapshot.docs.map((doc) => {
+      const data = doc.data() as ActivityReview;
+      return {
+        ...data,
+        id: doc.id,
+        createdAt: toDate(data.createdAt).toISOString(),
+      };
+    });
+
+    return {
+      status: 'success',
+      reviews,
+      nextStartAfter: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : null,
+    };
+  } catch (error) {
+    handleError(error, 'Error getting review queue:', 'Failed to get review queue.');
+  }
+});
+
+/**
+ * Admin: approves or rejects an activity held by anti-cheat
+ * Approving awards the withheld XP and stats; rejecting keeps them withheld and lets
+ * a duplicate of the activity count instead
+ * Requires the `admin` custom claim
+ */
+export const resolveActivityReview = onCall(async (request): Promise<SuccessResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  if (request.auth.token.admin !== true) {
+    throw new HttpsError('permission-denied', 'Admin privileges required.');
+  }
+
+  const adminId = request.auth.uid;
+  const { userId, activityId, decision } = parseData(resolveActivityReviewDataSchema, request.data);
+
+  try {
+    const docId = `${userId}_${activityId}`;
+    const activityRef = db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES).doc(docId);
+    const reviewRef = db.collection(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS).doc(docId);
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+    const status = decision === 'approve' ? 'approved' : 'rejected';
+    const rules = await loadXPRules();
+    // Rejecting an original lets its first duplicate not held by anti-cheat count instead
+    const duplicates =
+      decision === 'reject'
+        ? (await findDuplicatesOf(userId, activityId)).sort((a, b) => a.id - b.id)
+        : [];
+    const replacement = duplicates.find((duplicate) => !isWithheld(duplicate));
+    const siblings = duplicates.filter((duplicate) => duplicate !== replacement);
+
+    // Claim the review and award it in one transaction, so concurrent approvals can't award
+    // XP twice and a failure can't leave the activity approved without its XP
+    const awarded = await db.runTransaction(async (transaction) => {
+      const refs = [activityRef, userRef];
+      if (replacement) {
+        refs.push(
+          db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES).doc(`${userId}_${replacement.id}`),
+        );
+      }
+      const [activityDoc, userDoc, replacementDoc] = await transaction.getAll(...refs);
+
+      if (!activityDoc.exists) {
+        throw new HttpsError('not-found', 'Activity not found.');
+      }
+
+      const activity = activityDoc.data() as StoredActivity;
+      if (activity.antiCheat?.status !== 'pending_review') {
+        throw new HttpsError('failed-precondition', 'Activity is not awaiting review.');
+      }
+
+      // Duplicates stay without XP; they only count if the user picks them
+      let awarded: { activity: StoredActivity; xpResult: XPCalculationResult } | null = null;
+      if (activity.duplicateOf === undefined) {
+        if (!userDoc.exists) {
+          throw new HttpsError('not-found', 'User profile not found.');
+        }
+
+        const userData = userDoc.data() as UserProfile;
+        if (decision === 'approve') {
+          const xpResult = awardActivityXP(
+            transaction,
+            userId,
+            userData.game,
+            activity,
+            rules,
+            getAthleteProfile(userData),
+          );
+          transaction.update(userRef, {
+            stats: applyActivityToStats(userData.stats, activity, true),
+          });
+          awarded = { activity, xpResult };
+        } else if (replacement && replacementDoc?.exists) {
+          const replacementActivity = replacementDoc.data() as StoredActivity;
+          const xpResult = promoteDuplicate(
+            transaction,
+            userId,
+            userData,
+            replacementActivity,
+            siblings,
+            rules,
+          );
+          awarded = { activity: replacementActivity, xpResult };
+          logger.info(`Duplicate activity ${replacement.id} now counts in place of ${activityId}`);
+        } else {
+          // Any duplicates are held by anti-cheat too and now stand on their own
+          for (const duplicate of siblings) {
+            transaction.update(
+              db
+                .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+                .doc(`${userId}_${duplicate.id}`),
+              { duplicateOf: FieldValue.delete(), updatedAt: Timestamp.now() },
+            );
+          }
+        }
+      }
+
+      const now = Timestamp.now();
+      transaction.update(activityRef, {
+        'antiCheat.status': status,
+        'antiCheat.reviewedBy': adminId,
+        'antiCheat.reviewedAt': now,
+        ...(decision === 'approve' &&
+          awarded && { xpEarned: awarded.xpResult.totalXP, xpBreakdown: awarded.xpResult }),
+        updatedAt: now,
+      });
+      transaction.set(reviewRef, { status, resolvedBy: adminId, resolvedAt: now }, { merge: true });
+
+      return awarded;
+    });
+
+    if (awarded) {
+      // Advance quests (activities that earned no XP don't count)
+      if (awarded.xpResult.totalXP > 0) {
+        await updateQuestProgress(userId, awarded.activity);
+      }
+
+      await evaluateAchievements(userId, awarded.activity);
+    }
+
+    logger.info(`Admin ${adminId} ${status} activity ${activityId} for user ${userId}`);
+
+    return {
+      status: 'success',
+      message: `Activity ${status}`,
+    };
+  } catch (error) {
+    handleError(error, 'Error resolving activity review:', 'Failed to resolve activity review.');
+  }
+});
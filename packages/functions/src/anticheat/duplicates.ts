@@ -0,0 +1,368 @@
+import { setCountedActivityDataSchema } from '@endu/shared/schemas';
+import {
+  GameProfile,
+  StoredActivity,
+  StravaActivity,
+  SuccessResponse,
+  UserProfile,
+  UserStats,
+  XPCalculationResult,
+  XPRuleSet,
+} from '@endu/shared/types';
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { awardActivityXP, getAthleteProfile, reviseActivityXP } from '../game/game';
+import { loadXPRules } from '../game/rules';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { updateQuestProgress } from '../quests/quests';
+import { applyActivityToStats } from '../strava/strava';
+import { getActivityWindow, isWithheld } from './anticheat';
+import { ANTI_CHEAT_CONFIG } from './anticheat.config';
+
+const EARTH_RADIUS_M = 6371000;
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Decodes a Google encoded polyline into [lat, lng] pairs
+ */
+function decodePolyline(encoded: string): [number, number][] {
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let shift = 0;
+    let result = 0;
+    let byte;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lat / 1e5, lng / 1e5]);
+  }
+
+  return coordinates;
+}
+
+/**
+ * Great-circle distance between two [lat, lng] points in meters
+ */
+function distanceBetween([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Gets the first and last point of an activity's route, or null for activities without one
+ */
+function getRouteEndpoints(activity: StravaActivity): [number, number][] | null {
+  const polyline = activity.map?.summary_polyline;
+  if (!polyline) return null;
+
+  const points = decodePolyline(polyline);
+  return points.length > 0 ? [points[0], points[points.length - 1]] : null;
+}
+
+/**
+ * Whether two activities are the same workout recorded twice (e.g. on a watch and a phone)
+ * Requires the same type, mostly shared time, similar distance and, where both have a route,
+ * matching start and end points
+ */
+export function isDuplicateActivity(activity: StravaActivity, other: StravaActivity): boolean {
+  if (activity.type !== other.type) return false;
+
+  const a = getActivityWindow(activity);
+  const b = getActivityWindow(other);
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const shorter = Math.min(a.end - a.start, b.end - b.start);
+  if (shorter <= 0 || overlap / shorter < ANTI_CHEAT_CONFIG.DUPLICATE_MIN_OVERLAP_RATIO) {
+    return false;
+  }
+
+  const longerDistance = Math.max(activity.distance, other.distance);
+  if (
+    longerDistance > 0 &&
+    Math.abs(activity.distance - other.distance) / longerDistance >
+      ANTI_CHEAT_CONFIG.DUPLICATE_MAX_DISTANCE_DIFF
+  ) {
+    return false;
+  }
+
+  const endpoints = getRouteEndpoints(activity);
+  const otherEndpoints = getRouteEndpoints(other);
+  if (endpoints && otherEndpoints) {
+    return endpoints.every(
+      (point, i) =>
+        distanceBetween(point, otherEndpoints[i]) <= ANTI_CHEAT_CONFIG.DUPLICATE_MAX_ENDPOINT_M,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Whether an activity earns XP and stats: not withheld by anti-cheat and not a duplicate
+ */
+export function isCounted(activity: StravaActivity): boolean {
+  return !isWithheld(activity) && activity.duplicateOf === undefined;
+}
+
+/**
+ * Finds the activity a new activity duplicates, if any: one that counts or may still count
+ * once approved, so a second recording of an activity awaiting review doesn't count twice
+ * @param activity - Strava activity about to be stored
+ * @param overlapping - The user's stored activities overlapping it in time
+ */
+export function findDuplicatedActivity(
+  activity: StravaActivity,
+  overlapping: StoredActivity[],
+): StoredActivity | undefined {
+  return overlapping.find(
+    (other) =>
+      other.duplicateOf === undefined &&
+      other.antiCheat?.status !== 'rejected' &&
+      isDuplicateActivity(activity, other),
+  );
+}
+
+/**
+ * Gets the activities marked as duplicates of a counted activity
+ */
+export async function findDuplicatesOf(
+  userId: string,
+  activityId: number,
+): Promise<StoredActivity[]> {
+  const snapshot = await db
+    .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+    .where('userId', '==', userId)
+    .where('duplicateOf', '==', activityId)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as StoredActivity);
+}
+
+// ============================================================================
+// SWITCHING THE COUNTED ACTIVITY
+// ============================================================================
+
+/**
+ * Moves the XP, attributes and stats of a counted activity over to one of its duplicates
+ * Queues all writes on the caller's transaction, so all reads must already be done;
+ * the caller decides what happens to the previously counted activity
+ * @param transaction - Transaction that also rewrites or deletes the counted activity
+ * @param userId - Firebase user ID
+ * @param userData - User profile read inside the transaction
+ * @param counted - Activity that currently counts
+ * @param replacement - Duplicate that counts from now on
+ * @param siblings - Other duplicates of the counted activity, re-pointed to the replacement
+ * @param rules - XP rules to price the replacement with
+ * @returns XP result for the replacement
+ */
+export function transferCountedActivity(
+  transaction: Transaction,
+  userId: string,
+  userData: UserProfile | undefined,
+  counted: StravaActivity,
+  replacement: StravaActivity,
+  siblings: StravaActivity[],
+  rules: XPRuleSet,
+): XPCalculationResult | null {
+  const xpResult = reviseActivityXP(
+    transaction,
+    userId,
+    userData?.game as GameProfile | undefined,
+    counted,
+    replacement,
+    rules,
+    getAthleteProfile(userData),
+    'Replaced by duplicate',
+  );
+
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  transaction.update(userRef, {
+    stats: applyActivityToStats(
+      applyActivityToStats(userData?.stats as UserStats | undefined, counted, false),
+      replacement,
+      true,
+    ),
+  });
+
+  markCounted(transaction, userId, replacement, siblings, xpResult);
+
+  return xpResult;
+}
+
+/**
+ * Makes a duplicate count on its own, in place of an activity that never counted
+ * (e.g. one rejected by anti-cheat or deleted while awaiting review)
+ * Queues all writes on the caller's transaction, so all reads must already be done
+ * @param transaction - Transaction that also resolves or deletes the duplicated activity
+ * @param userId - Firebase user ID
+ * @param userData - User profile read inside the transaction
+ * @param replacement - Duplicate that counts from now on
+ * @param siblings - Other duplicates of the same activity, re-pointed to the replacement
+ * @param rules - XP rules to price the replacement with
+ * @returns XP result for the replacement
+ */
+export function promoteDuplicate(
+  transaction: Transaction,
+  userId: string,
+  userData: UserProfile,
+  replacement: StravaActivity,
+  siblings: StravaActivity[],
+  rules: XPRuleSet,
+): XPCalculationResult {
+  const xpResult = awardActivityXP(
+    transaction,
+    userId,
+    userData.game,
+    replacement,
+    rules,
+    getAthleteProfile(userData),
+  );
+
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  transaction.update(userRef, {
+    stats: applyActivityToStats(userData.stats, replacement, true),
+  });
+
+  markCounted(transaction, userId, replacement, siblings, xpResult);
+
+  return xpResult;
+}
+
+/**
+ * Records the XP of a duplicate that now counts and re-points its siblings to it
+ */
+function markCounted(
+  transaction: Transaction,
+  userId: string,
+  replacement: StravaActivity,
+  siblings: StravaActivity[],
+  xpResult: XPCalculationResult | null,
+): void {
+  const activities = db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES);
+  transaction.update(activities.doc(`${userId}_${replacement.id}`), {
+    duplicateOf: FieldValue.delete(),
+    xpEarned: xpResult?.totalXP ?? 0,
+    xpBreakdown: xpResult,
+    updatedAt: Timestamp.now(),
+  });
+  for (const sibling of siblings) {
+    transaction.update(activities.doc(`${userId}_${sibling.id}`), {
+      duplicateOf: replacement.id,
+      updatedAt: Timestamp.now(),
+    });
+  }
+}
+
+// ============================================================================
+// EXPORTED CLOUD FUNCTIONS
+// ============================================================================
+
+/**
+ * Makes a duplicate activity the one that counts, in place of the activity it duplicates
+ * The previously counted activity becomes a duplicate and its XP and stats move over;
+ * an original still awaiting review just becomes a duplicate
+ */
+export const setCountedActivity = onCall(async (request): Promise<SuccessResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  const userId = request.auth.uid;
+  const { activityId } = parseData(setCountedActivityDataSchema, request.data);
+
+  try {
+    const activities = db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES);
+    const activityRef = activities.doc(`${userId}_${activityId}`);
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+
+    const activityDoc = await activityRef.get();
+    const countedId = (activityDoc.data() as StoredActivity | undefined)?.duplicateOf;
+    if (countedId === undefined) {
+      throw new HttpsError('failed-precondition', 'Activity is not a duplicate.');
+    }
+
+    const siblings = (await findDuplicatesOf(userId, countedId)).filter(
+      (sibling) => sibling.id !== activityId,
+    );
+    const rules = await loadXPRules();
+
+    // The chosen activity when it earned XP of its own, so it advances quests
+    const promoted = await db.runTransaction(async (transaction) => {
+      const countedRef = activities.doc(`${userId}_${countedId}`);
+      const [chosenDoc, countedDoc, userDoc] = await transaction.getAll(
+        activityRef,
+        countedRef,
+        userRef,
+      );
+
+      const chosen = chosenDoc.data() as StoredActivity | undefined;
+      const counted = countedDoc.data() as StoredActivity | undefined;
+
+      if (!chosen || !counted || !userDoc.exists) {
+        throw new HttpsError('not-found', 'Activity not found.');
+      }
+      if (chosen.duplicateOf !== counted.id || counted.duplicateOf !== undefined) {
+        throw new HttpsError('aborted', 'Activity changed, please try again.');
+      }
+      if (isWithheld(chosen)) {
+        throw new HttpsError('failed-precondition', 'Activity is held by anti-cheat.');
+      }
+
+      // An original still awaiting review has no XP or stats to move over
+      const userData = userDoc.data() as UserProfile;
+      let promoted: StoredActivity | null = null;
+      if (isCounted(counted)) {
+        transferCountedActivity(transaction, userId, userData, counted, chosen, siblings, rules);
+      } else if (
+        promoteDuplicate(transaction, userId, userData, chosen, siblings, rules).totalXP > 0
+      ) {
+        promoted = chosen;
+      }
+      transaction.update(countedRef, {
+        duplicateOf: chosen.id,
+        xpEarned: 0,
+        xpBreakdown: FieldValue.delete(),
+        updatedAt: Timestamp.now(),
+      });
+
+      return promoted;
+    });
+
+    if (promoted) {
+      await updateQuestProgress(userId, promoted);
+    }
+
+    logger.info(`User ${userId} now counts activity ${activityId} instead of ${countedId}`);
+
+    return {
+      status: 'success',
+      message: 'Counted activity updated',
+    };
+  } catch (error) {
+    handleError(error, 'Error setting counted activity:', 'Failed to set counted activity.');
+  }
+});
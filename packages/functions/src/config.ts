@@ -5,10 +5,31 @@ export const STRAVA_CONFIG = {
   PUSH_SUBSCRIPTION_URL: 'https://www.strava.com/api/v3/push_subscriptions',
 };
 
+export const STRAVA_RATE_LIMIT_CONFIG = {
+  // Share of each rate limit a request may use, so bulk work leaves room for webhooks
+  PRIORITY_SHARE: {
+    webhook: 1,
+    interactive: 0.9,
+    bulk: 0.6,
+  },
+  MAX_RETRIES: 3, // Retries after a 5xx or network error
+  RETRY_BASE_DELAY_MS: 500, // Doubled on each retry
+  MAX_RATE_LIMIT_WAIT_MS: 30 * 1000, // Longest wait for the window to reset after a 429
+};
+
 export const FIRESTORE_COLLECTIONS = {
   USERS: 'users',
   STRAVA_TOKENS: 'stravaTokens',
   STRAVA_ACTIVITIES: 'stravaActivities',
+  XP_LEDGER: 'xpLedger',
+  USER_QUESTS: 'userQuests',
+  USER_ACHIEVEMENTS: 'userAchievements',
+  GAME_CONFIG: 'gameConfig',
+  ACTIVITY_REVIEWS: 'activityReviews',
+  STRAVA_BACKFILLS: 'stravaBackfills',
+  STRAVA_API: 'stravaApi',
+  WEBHOOK_EVENTS: 'webhookEvents',
+  REQUEST_THROTTLES: 'requestThrottles',
 };
 
 export const getStravaCredentials = () => {
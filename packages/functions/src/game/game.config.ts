@@ -15,21 +15,94 @@ export const GAME_CONFIG = {
   XP_PER_KM_SWIM: 500, // Swimming: 1 km = 500 XP
   XP_PER_MIN_WORKOUT: 10, // Workout/Strength: 1 min = 10 XP
   XP_PER_MIN_YOGA: 5, // Yoga/Other: 1 min = 5 XP
+  XP_PER_KM_PADDLE: 100, // Rowing/Kayaking/Canoeing: 1 km = 100 XP
+  XP_PER_KM_SKATE: 25, // Inline/Ice skating: 1 km = 25 XP
+  XP_PER_MIN_RACKET: 8, // Racket sports: 1 min = 8 XP
+  XP_PER_MIN_BOARD: 6, // Surfing/Kitesurf/Windsurf: 1 min = 6 XP
 
   // Streak system
   STREAK_THRESHOLD: 3, // Days needed to activate streak
   STREAK_BONUS_MULTIPLIER: 1.2, // +20% XP bonus
+  STREAK_FREEZE_EARN_DAYS: 7, // One streak freeze earned per 7 streak days
+  MAX_STREAK_FREEZES: 2, // Freezes that can be held at once
+  STREAK_FREEZE_HISTORY_LIMIT: 20, // Freeze uses kept on the profile
 
-  // Anti-cheat
-  MAX_SPEED_KMH: 25, // Max realistic running speed (km/h)
+  // Power-based cycling XP (rules with usePower, when the ride has power meter data)
+  POWER: {
+    XP_PER_TSS: 12, // With FTP: training stress score × 12
+    XP_PER_KJ: 1.25, // Without FTP: mechanical work in kilojoules × 1.25
+    MAX_INTENSITY_FACTOR: 1.2, // Normalized power over FTP counts up to 120%
+    MAX_TSS_PER_HOUR: 120, // Training stress counts up to 120 per hour of riding
+    // Beyond 150% of FTP the set FTP doesn't fit the ride, so it is priced on kilojoules
+    MAX_PLAUSIBLE_INTENSITY: 1.5,
+  },
+
+  // Heart-rate effort bonus (zones on heart-rate reserve)
+  EFFORT: {
+    DEFAULT_RESTING_HR: 60, // Used when the athlete hasn't set a resting HR
+    ZONE_FLOORS: [0.5, 0.6, 0.7, 0.8, 0.9], // HR reserve fraction where zones 1-5 start
+    XP_PER_ZONE_MINUTE: 1, // XP per minute, multiplied by the zone number
+  },
+
+  // Manually entered activities (defaults; can be overridden with the XP rules)
+  MANUAL_ACTIVITY: {
+    POLICY: 'multiplier', // 'multiplier', 'daily_cap' or 'review'
+    XP_MULTIPLIER: 0.5, // 'multiplier': manual activities earn 50% XP
+    DAILY_XP_CAP: 300, // 'daily_cap': max XP from manual activities per local day
+  },
+
+  // Daily XP limit on activity XP, per athlete-local day (quest rewards are not limited)
+  DAILY_XP: {
+    FULL_RATE_XP: 5000, // XP earned at the full rate each day
+    DIMINISHED_RATE: 0.5, // Beyond that, activities earn 50% XP ...
+    CAP: 8000, // ... until the day's total reaches the cap
+  },
+
+  // Character attributes (points gained per activity)
+  ATTRIBUTES: {
+    ENDURANCE_MIN_PER_POINT: 10, // Endurance sports: 1 point per 10 min moving
+    ENDURANCE_LONG_SESSION_MIN: 90, // Sessions of 90+ min earn double Endurance
+    STRENGTH_MIN_PER_POINT: 5, // Workout/Strength: 1 point per 5 min
+    AGILITY_MIN_PER_POINT: 10, // Technical sports: 1 point per 10 min
+    SPEED_KM_PER_POINT: 1, // 1 point per km covered above the speed threshold
+    CLIMBING_M_PER_POINT: 50, // Elevation: 1 point per 50 m climbed
+  },
+
+  // Minimum average speed (km/h) for an activity to count towards Speed
+  SPEED_THRESHOLDS_KMH: {
+    RUN: 12, // 5:00 /km
+    RIDE: 30,
+    SWIM: 3, // 2:00 /100m
+    XC_SKI: 15,
+  },
 
   // Activity type mappings
   RUNNING_TYPES: ['Run', 'VirtualRun', 'TrailRun'],
   WALKING_TYPES: ['Walk', 'Hike'],
-  CYCLING_TYPES: ['Ride', 'VirtualRide', 'EBikeRide', 'MountainBikeRide'],
+  CYCLING_TYPES: [
+    'Ride',
+    'VirtualRide',
+    'EBikeRide',
+    'MountainBikeRide',
+    'GravelRide',
+    'EMountainBikeRide',
+  ],
   XC_SKI_TYPES: ['NordicSki', 'BackcountrySki'],
   SKI_TYPES: ['AlpineSki', 'Snowboard'],
   WORKOUT_TYPES: ['Workout', 'WeightTraining', 'Crossfit'],
   SWIM_TYPES: ['Swim'],
   YOGA_TYPES: ['Yoga', 'Elliptical', 'StairStepper', 'RockClimbing'],
+  PADDLE_TYPES: ['Rowing', 'VirtualRow', 'Kayaking', 'Canoeing', 'StandUpPaddling'],
+  SKATE_TYPES: ['InlineSkate', 'IceSkate', 'RollerSki'],
+  RACKET_TYPES: ['Padel', 'Pickleball', 'Tennis', 'Badminton', 'Squash', 'TableTennis'],
+  BOARD_TYPES: ['Surfing', 'Kitesurf', 'Windsurf'],
+  AGILITY_TYPES: [
+    'TrailRun',
+    'MountainBikeRide',
+    'AlpineSki',
+    'Snowboard',
+    'BackcountrySki',
+    'RockClimbing',
+    'Yoga',
+  ],
 };
@@ -1,4 +1,23 @@
-import { Timestamp } from 'firebase-admin/firestore';
+import { addDebugXPDataSchema, emptyDataSchema } from '@endu/shared/schemas';
+import {
+  AddDebugXPResponse,
+  AthleteProfile,
+  CalculatedLevel,
+  CharacterAttributes,
+  CharacterTier,
+  DailyXPStatus,
+  GameProfile,
+  GameProfileResponse,
+  ManualActivityPolicy,
+  PricingContext,
+  StravaActivity,
+  StreakCalculationResult,
+  UserProfile,
+  XPCalculationResult,
+  XPRuleSet,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
+import { Timestamp, Transaction } from 'firebase-admin/firestore';
 import * as logger from 'firebase-functions/logger';
 // ============================================================================
 // EXPORTED CLOUD FUNCTIONS
@@ -8,16 +27,10 @@ import { HttpsError, onCall } from 'firebase-functions/v2/https';
 
 import { db } from '../admin';
 import { FIRESTORE_COLLECTIONS } from '../config';
-import {
-  CalculatedLevel,
-  CharacterTier,
-  GameProfile,
-  GameProfileResponse,
-  StravaActivity,
-  StreakCalculationResult,
-  XPCalculationResult,
-} from '../types';
+import { parseData } from '../parseData';
 import { GAME_CONFIG } from './game.config';
+import { buildActivityLedgerEntries, buildLedgerEntries, writeLedgerEntries } from './ledger';
+import { findXPRule } from './rules';
 
 // ============================================================================
 // LEVEL CALCULATION
@@ -74,44 +87,272 @@ export function getCharacterTier(level: number): CharacterTier {
 // STREAK SYSTEM
 // ============================================================================
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 /**
- * Updates user's activity streak
- * Returns updated streak count and whether bonus is active
+ * Extracts the IANA zone from Strava's timezone string, e.g. "(GMT-08:00) America/Los_Angeles"
+ */
+export function parseStravaTimezone(timezone: string | undefined): string | undefined {
+  return timezone?.split(' ').pop() || undefined;
+}
+
+/**
+ * Gets the calendar day (YYYY-MM-DD) of a moment in the given IANA timezone
+ * Falls back to the UTC day when the timezone is missing or unknown
+ */
+export function toLocalDay(date: Date, timeZone: string | undefined): string {
+  if (timeZone) {
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', { timeZone }).format(date);
+    } catch {
+      logger.warn(`Unknown timezone ${timeZone}, using UTC`);
+    }
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Gets how far ahead of UTC a timezone's wall-clock time is at a moment, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Gets the moment a local calendar day ends, i.e. midnight at the start of the next day
+ * Falls back to UTC midnight when the timezone is missing or unknown
+ */
+export function getLocalDayEnd(day: string, timeZone: string | undefined): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, date + 1);
+
+  if (timeZone) {
+    try {
+      // Correct by the offset at the first guess, which is off if a DST change lies between
+      const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+      return new Date(utcMidnight - getTimeZoneOffset(new Date(guess), timeZone));
+    } catch {
+      logger.warn(`Unknown timezone ${timeZone}, using UTC`);
+    }
+  }
+
+  return new Date(utcMidnight);
+}
+
+/**
+ * Gets the athlete's local calendar day (YYYY-MM-DD) for an activity
+ * Prefers start_date_local, which Strava reports as local wall-clock time
+ */
+export function getActivityLocalDay(activity: StravaActivity): string {
+  if (activity.start_date_local) {
+    return activity.start_date_local.slice(0, 10);
+  }
+
+  return toLocalDay(new Date(activity.start_date), parseStravaTimezone(activity.timezone));
+}
+
+/**
+ * Gets the local day of the profile's last activity
+ * Profiles from before local-day tracking fall back to the UTC day
+ */
+export function getLastActivityDay(game: GameProfile | undefined): string | undefined {
+  return (
+    game?.lastActivityDay ??
+    (game?.lastActivityDate && toDate(game.lastActivityDate).toISOString().slice(0, 10))
+  );
+}
+
+/**
+ * Counts calendar days between two YYYY-MM-DD days (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  // Both days parse as UTC midnight, so DST never skews the difference
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Adds a day offset to a YYYY-MM-DD day
+ */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Awards a streak freeze each time the streak reaches a multiple of STREAK_FREEZE_EARN_DAYS
+ */
+function earnStreakFreezes(streakCount: number, streakFreezes: number): number {
+  if (streakCount % GAME_CONFIG.STREAK_FREEZE_EARN_DAYS !== 0) {
+    return streakFreezes;
+  }
+  return Math.min(streakFreezes + 1, GAME_CONFIG.MAX_STREAK_FREEZES);
+}
+
+/**
+ * Updates user's activity streak on local calendar days
+ * A single-day gap is bridged automatically when a streak freeze is available
+ * @param lastActivityDay - Local day of the latest activity so far (YYYY-MM-DD)
+ * @param currentStreakCount - Streak count before this activity
+ * @param activityDay - Local day of the new activity (YYYY-MM-DD)
+ * @param streakFreezes - Streak freezes held before this activity
  */
 export function updateStreak(
-  lastActivityDate: Timestamp | undefined,
+  lastActivityDay: string | undefined,
   currentStreakCount: number,
-  currentActivityDate: Date,
+  activityDay: string,
+  streakFreezes = 0,
 ): StreakCalculationResult {
-  if (!lastActivityDate) {
+  if (!lastActivityDay) {
     // First activity
-    return { streakCount: 1, streakActive: false };
+    return { streakCount: 1, streakActive: false, lastActivityDay: activityDay, streakFreezes };
   }
 
-  const lastDate = lastActivityDate.toDate();
+  const daysDiff = daysBetween(lastActivityDay, activityDay);
 
-  // getTime() returns milliseconds since epoch
-  const daysDiff = Math.floor(
-    (currentActivityDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24),
-  );
-
-  if (daysDiff === 0) {
-    // Same day - maintain current streak
+  if (daysDiff <= 0) {
+    // Same day, or an older activity arriving late - maintain current streak
     return {
       streakCount: currentStreakCount,
       streakActive: currentStreakCount >= GAME_CONFIG.STREAK_THRESHOLD,
+      lastActivityDay,
+      streakFreezes,
     };
-  } else if (daysDiff === 1) {
-    // Consecutive day - increment streak
+  } else if (daysDiff === 1 || (daysDiff === 2 && streakFreezes > 0)) {
+    // Consecutive day (or a rest day covered by a freeze) - increment streak
+    const frozen = daysDiff === 2;
     const newStreak = currentStreakCount + 1;
     return {
       streakCount: newStreak,
       streakActive: newStreak >= GAME_CONFIG.STREAK_THRESHOLD,
+      lastActivityDay: activityDay,
+      streakFreezes: earnStreakFreezes(newStreak, frozen ? streakFreezes - 1 : streakFreezes),
+      ...(frozen && { frozenDay: addDays(lastActivityDay, 1) }),
     };
   } else {
-    // Streak broken
-    return { streakCount: 1, streakActive: false };
+    // Streak broken - unused freezes are kept
+    return { streakCount: 1, streakActive: false, lastActivityDay: activityDay, streakFreezes };
+  }
+}
+
+// ============================================================================
+// CHARACTER ATTRIBUTES
+// ============================================================================
+
+/**
+ * Returns a zeroed attribute block
+ */
+export function getInitialAttributes(): CharacterAttributes {
+  return { endurance: 0, strength: 0, speed: 0, agility: 0, climbing: 0 };
+}
+
+/**
+ * Checks whether the activity's sport type or legacy type is in the given list
+ */
+function matchesType(activity: StravaActivity, types: string[]): boolean {
+  return types.includes(activity.sport_type) || types.includes(activity.type);
+}
+
+/**
+ * Gets the minimum average speed (km/h) for the activity to grow Speed
+ * Returns null for activity types where speed is not rewarded
+ */
+function getSpeedThreshold(activity: StravaActivity): number | null {
+  const thresholds = GAME_CONFIG.SPEED_THRESHOLDS_KMH;
+
+  if (GAME_CONFIG.RUNNING_TYPES.includes(activity.type)) return thresholds.RUN;
+  if (GAME_CONFIG.CYCLING_TYPES.includes(activity.type)) return thresholds.RIDE;
+  if (GAME_CONFIG.SWIM_TYPES.includes(activity.type)) return thresholds.SWIM;
+  if (GAME_CONFIG.XC_SKI_TYPES.includes(activity.type)) return thresholds.XC_SKI;
+  return null;
+}
+
+/**
+ * Calculates attribute points gained from a single activity
+ */
+export function calculateAttributeGains(activity: StravaActivity): CharacterAttributes {
+  const gains = getInitialAttributes();
+  const config = GAME_CONFIG.ATTRIBUTES;
+  const movingTimeMin = activity.moving_time / 60;
+  const distanceKm = activity.distance / 1000;
+
+  // Endurance: aerobic distance sports, long sessions count double
+  const enduranceTypes = [
+    ...GAME_CONFIG.RUNNING_TYPES,
+    ...GAME_CONFIG.WALKING_TYPES,
+    ...GAME_CONFIG.CYCLING_TYPES,
+    ...GAME_CONFIG.SWIM_TYPES,
+    ...GAME_CONFIG.XC_SKI_TYPES,
+  ];
+  if (enduranceTypes.includes(activity.type)) {
+    const multiplier = movingTimeMin >= config.ENDURANCE_LONG_SESSION_MIN ? 2 : 1;
+    gains.endurance = Math.floor(movingTimeMin / config.ENDURANCE_MIN_PER_POINT) * multiplier;
   }
+
+  // Strength: workout types
+  if (GAME_CONFIG.WORKOUT_TYPES.includes(activity.type)) {
+    gains.strength = Math.floor(movingTimeMin / config.STRENGTH_MIN_PER_POINT);
+  }
+
+  // Speed: distance covered faster than the per-sport threshold
+  const speedThreshold = getSpeedThreshold(activity);
+  if (speedThreshold !== null && activity.moving_time > 0) {
+    const speedKmH = distanceKm / (activity.moving_time / 3600);
+    if (speedKmH >= speedThreshold) {
+      gains.speed = Math.floor(distanceKm / config.SPEED_KM_PER_POINT);
+    }
+  }
+
+  // Agility: technical sports (matched on sport_type, e.g. TrailRun)
+  if (matchesType(activity, GAME_CONFIG.AGILITY_TYPES)) {
+    gains.agility = Math.floor(movingTimeMin / config.AGILITY_MIN_PER_POINT);
+  }
+
+  // Climbing: elevation gain (applies to all activities)
+  gains.climbing = Math.floor(activity.total_elevation_gain / config.CLIMBING_M_PER_POINT);
+
+  return gains;
+}
+
+/**
+ * Adds (or subtracts, with sign = -1) attribute points, never dropping below zero
+ */
+export function applyAttributeGains(
+  current: CharacterAttributes | undefined,
+  gains: CharacterAttributes,
+  sign: 1 | -1 = 1,
+): CharacterAttributes {
+  const base = current ?? getInitialAttributes();
+  return {
+    endurance: Math.max(0, base.endurance + gains.endurance * sign),
+    strength: Math.max(0, base.strength + gains.strength * sign),
+    speed: Math.max(0, base.speed + gains.speed * sign),
+    agility: Math.max(0, base.agility + gains.agility * sign),
+    climbing: Math.max(0, base.climbing + gains.climbing * sign),
+  };
 }
 
 // ============================================================================
@@ -119,139 +360,357 @@ export function updateStreak(
 // ============================================================================
 
 /**
- * Detects if activity speed is suspicious (anti-cheat)
+ * Calculates XP from power meter data, or null when the activity has none
+ * Uses training stress (normalized power vs. FTP) when the athlete has set an FTP that fits
+ * the ride, otherwise the mechanical work in kilojoules
+ * Intensity and training stress are capped, so an understated FTP can't inflate XP
  */
-function isSuspiciousSpeed(activity: StravaActivity): boolean {
-  if (activity.distance === 0 || activity.moving_time === 0) {
-    return false; // Can't calculate speed
+export function calculatePowerXP(activity: StravaActivity, athlete: AthleteProfile): number | null {
+  // Estimated watts (device_watts false) are too rough to price on
+  if (!activity.device_watts) {
+    return null;
   }
 
-  // Calculate speed in km/h
-  const speedKmH = activity.distance / 1000 / (activity.moving_time / 3600);
+  const { MAX_INTENSITY_FACTOR, MAX_TSS_PER_HOUR, MAX_PLAUSIBLE_INTENSITY } = GAME_CONFIG.POWER;
+  const normalizedPower = activity.weighted_average_watts ?? activity.average_watts;
+  if (athlete.ftp && normalizedPower && normalizedPower / athlete.ftp <= MAX_PLAUSIBLE_INTENSITY) {
+    const hours = activity.moving_time / 3600;
+    const intensityFactor = Math.min(normalizedPower / athlete.ftp, MAX_INTENSITY_FACTOR);
+    const tss = Math.min(hours * intensityFactor * intensityFactor * 100, hours * MAX_TSS_PER_HOUR);
+    return tss * GAME_CONFIG.POWER.XP_PER_TSS;
+  }
 
-  // Only check running activities
-  if (GAME_CONFIG.RUNNING_TYPES.includes(activity.type)) {
-    return speedKmH > GAME_CONFIG.MAX_SPEED_KMH;
+  if (activity.kilojoules) {
+    return activity.kilojoules * GAME_CONFIG.POWER.XP_PER_KJ;
   }
 
-  return false;
+  return null;
 }
 
 /**
- * Calculates base XP from activity based on type and distance
+ * Calculates base XP from the activity's XP rule
+ * Returns the elevation component separately for the XP breakdown
  */
-function calculateBaseXP(activity: StravaActivity): number {
+function calculateBaseXP(
+  activity: StravaActivity,
+  rules: XPRuleSet,
+  athlete: AthleteProfile,
+): { baseXP: number; elevationXP: number; powerBased: boolean } {
+  const rule = findXPRule(rules, activity);
+  const powerXP = rule?.usePower ? calculatePowerXP(activity, athlete) : null;
   let activityXP = 0;
 
-  // Distance-based activities
-  if (activity.distance > 0) {
+  if (powerXP !== null) {
+    activityXP = powerXP;
+  } else if (rule) {
     const distanceKm = activity.distance / 1000;
-    let xpPerKm: number;
-
-    if (GAME_CONFIG.RUNNING_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_RUN;
-    } else if (GAME_CONFIG.WALKING_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_WALK;
-    } else if (GAME_CONFIG.XC_SKI_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_XC_SKI;
-    } else if (GAME_CONFIG.SKI_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_SKI;
-    } else if (GAME_CONFIG.CYCLING_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_RIDE;
-    } else if (GAME_CONFIG.SWIM_TYPES.includes(activity.type)) {
-      xpPerKm = GAME_CONFIG.XP_PER_KM_SWIM;
-    } else {
-      // Default to yoga/other time-based
-      xpPerKm = 0;
-    }
+    const movingTimeMin = activity.moving_time / 60;
 
-    if (xpPerKm > 0) {
-      activityXP = distanceKm * xpPerKm;
+    switch (rule.formula) {
+      case 'distance':
+        activityXP = distanceKm * (rule.xpPerKm ?? 0);
+        break;
+      case 'time':
+        activityXP = movingTimeMin * (rule.xpPerMin ?? 0);
+        break;
+      case 'hybrid':
+        activityXP = distanceKm * (rule.xpPerKm ?? 0) + movingTimeMin * (rule.xpPerMin ?? 0);
+        break;
     }
   }
 
-  // Time-based activities (if no distance or specific types)
-  if (activityXP === 0 && activity.moving_time > 0) {
-    const movingTimeMin = activity.moving_time / 60;
+  // Add elevation bonus (applies to all activities)
+  const elevationXP = activity.total_elevation_gain * rules.xpPerMElevation;
 
-    if (GAME_CONFIG.WORKOUT_TYPES.includes(activity.type)) {
-      activityXP = movingTimeMin * GAME_CONFIG.XP_PER_MIN_WORKOUT;
-    } else if (GAME_CONFIG.YOGA_TYPES.includes(activity.type)) {
-      activityXP = movingTimeMin * GAME_CONFIG.XP_PER_MIN_YOGA;
-    }
+  return {
+    baseXP: Math.floor(activityXP + elevationXP),
+    elevationXP: Math.floor(elevationXP),
+    powerBased: powerXP !== null,
+  };
+}
+
+/**
+ * Gets the pricing-relevant athlete settings from a user profile
+ */
+export function getAthleteProfile(user: UserProfile | undefined): AthleteProfile {
+  return {
+    maxHeartRate: user?.maxHeartRate,
+    restingHeartRate: user?.restingHeartRate,
+    ftp: user?.ftp,
+  };
+}
+
+/**
+ * Calculates the heart-rate effort bonus from the activity's average HR zone
+ * Zones are fractions of heart-rate reserve (Karvonen); needs the athlete's max HR
+ */
+function calculateEffortBonus(activity: StravaActivity, athlete: AthleteProfile): number {
+  const { maxHeartRate } = athlete;
+  if (!activity.has_heartrate || !activity.average_heartrate || !maxHeartRate) {
+    return 0;
   }
 
-  // Add elevation bonus (applies to all activities)
-  const elevationXP = activity.total_elevation_gain * GAME_CONFIG.XP_PER_M_ELEVATION;
+  const restingHeartRate = athlete.restingHeartRate ?? GAME_CONFIG.EFFORT.DEFAULT_RESTING_HR;
+  if (maxHeartRate <= restingHeartRate) {
+    return 0;
+  }
+
+  const reserveFraction =
+    (activity.average_heartrate - restingHeartRate) / (maxHeartRate - restingHeartRate);
+  const zone = GAME_CONFIG.EFFORT.ZONE_FLOORS.filter((floor) => reserveFraction >= floor).length;
 
-  return Math.floor(activityXP + elevationXP);
+  return Math.floor((activity.moving_time / 60) * zone * GAME_CONFIG.EFFORT.XP_PER_ZONE_MINUTE);
 }
 
 /**
- * Main XP calculation with all bonuses and caps
+ * Gets the XP manual activities have earned on a local day
  */
-export async function calculateXP(
-  userId: string,
+export function getManualXPEarned(
+  game: Pick<GameProfile, 'manualXPDay' | 'manualXPEarned'> | undefined,
+  day: string,
+): number {
+  return game?.manualXPDay === day ? game.manualXPEarned || 0 : 0;
+}
+
+/**
+ * Calculates how much XP the manual activity policy removes from an activity
+ * The 'review' policy holds manual activities in anti-cheat instead, so removes nothing here
+ * @param xp - XP the activity would earn if it were recorded
+ * @param manualXPToday - XP manual activities already earned on the activity's local day
+ */
+function calculateManualReduction(
   activity: StravaActivity,
-): Promise<XPCalculationResult> {
-  // Anti-cheat: Check for suspicious speed
-  if (isSuspiciousSpeed(activity)) {
-    logger.warn(`Suspicious speed detected for activity ${activity.id}, awarding 0 XP`);
-    return {
-      baseXP: 0,
-      streakBonus: 0,
-      totalXP: 0,
-    };
+  xp: number,
+  policy: ManualActivityPolicy,
+  manualXPToday: number,
+): number {
+  if (!activity.manual) {
+    return 0;
   }
 
-  // Get user's game profile
-  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
-  const userDoc = await userRef.get();
-  const gameProfile = userDoc.data()?.game as GameProfile | undefined;
+  switch (policy.mode) {
+    case 'multiplier':
+      return xp - Math.floor(xp * policy.xpMultiplier);
+    case 'daily_cap':
+      return xp - Math.min(xp, Math.max(0, policy.dailyXPCap - manualXPToday));
+    case 'review':
+      return 0;
+  }
+}
+
+/**
+ * Gets the activity XP earned on a local day, for the daily XP limit
+ */
+export function getDailyXPEarned(
+  game: Pick<GameProfile, 'dailyXPDay' | 'dailyXPEarned'> | undefined,
+  day: string,
+): number {
+  return game?.dailyXPDay === day ? game.dailyXPEarned || 0 : 0;
+}
+
+/**
+ * Calculates how much XP the daily XP limit removes from an activity
+ * XP is earned in full up to FULL_RATE_XP a day, then at a diminished rate up to the CAP
+ * @param xp - XP the activity would earn without the limit
+ * @param dailyXPToday - Activity XP already earned on the activity's local day
+ */
+function calculateDailyLimitReduction(xp: number, dailyXPToday: number): number {
+  const { FULL_RATE_XP, DIMINISHED_RATE, CAP } = GAME_CONFIG.DAILY_XP;
+
+  const fullRateXP = Math.min(xp, Math.max(0, FULL_RATE_XP - dailyXPToday));
+  const diminishedXP = Math.min(
+    Math.floor((xp - fullRateXP) * DIMINISHED_RATE),
+    Math.max(0, CAP - dailyXPToday - fullRateXP),
+  );
+
+  return xp - fullRateXP - diminishedXP;
+}
+
+/**
+ * Gets the daily XP limit status as of a moment, treating a past reset as a fresh day
+ */
+export function getDailyXPStatus(game: GameProfile, now: Date): DailyXPStatus {
+  const resetDate = game.dailyXPResetDate && toDate(game.dailyXPResetDate);
+  const isCurrent = !!resetDate && now < resetDate;
+  const earned = isCurrent ? game.dailyXPEarned || 0 : 0;
+  const resetsAt = isCurrent
+    ? resetDate
+    : getLocalDayEnd(toLocalDay(now, game.timezone), game.timezone);
+
+  return {
+    earned,
+    remaining: Math.max(0, GAME_CONFIG.DAILY_XP.CAP - earned),
+    fullRateRemaining: Math.max(0, GAME_CONFIG.DAILY_XP.FULL_RATE_XP - earned),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
 
+/**
+ * Prices an activity with all bonuses and caps
+ * @param activity - Strava activity to price
+ * @param context - Streak state and XP rules to price with
+ */
+export function priceActivity(
+  activity: StravaActivity,
+  context: PricingContext,
+): XPCalculationResult {
   // Calculate base XP
-  let baseXP = calculateBaseXP(activity);
+  const { baseXP, elevationXP, powerBased } = calculateBaseXP(
+    activity,
+    context.rules,
+    context.athlete,
+  );
+
+  // Calculate heart-rate effort bonus
+  const effortBonus = calculateEffortBonus(activity, context.athlete);
 
   // Apply streak bonus
   let streakBonus = 0;
-  if (gameProfile?.streakActive) {
+  if (context.streakActive) {
     streakBonus = Math.floor(baseXP * (GAME_CONFIG.STREAK_BONUS_MULTIPLIER - 1));
     logger.info(`Streak bonus applied: +${streakBonus} XP`);
   }
 
+  // Apply the manual activity policy
+  const { manualPolicy } = context.rules;
+  const manualReduction = calculateManualReduction(
+    activity,
+    baseXP + effortBonus + streakBonus,
+    manualPolicy,
+    context.manualXPToday ?? 0,
+  );
+
+  // Apply the daily XP limit
+  const dailyLimitReduction = calculateDailyLimitReduction(
+    baseXP + effortBonus + streakBonus - manualReduction,
+    context.dailyXPToday ?? 0,
+  );
+
   // Calculate total XP
-  let totalXP = baseXP + streakBonus;
+  const totalXP = baseXP + effortBonus + streakBonus - manualReduction - dailyLimitReduction;
 
   return {
     baseXP,
+    elevationXP,
+    ...(powerBased && { powerBased }),
     streakBonus,
+    effortBonus,
+    ...(activity.manual && { manualPolicy: manualPolicy.mode }),
+    ...(manualReduction > 0 && { manualReduction }),
+    ...(dailyLimitReduction > 0 && { dailyLimitReduction }),
     totalXP,
   };
 }
 
+/**
+ * Determines whether a stored activity was awarded the streak bonus
+ * Falls back to re-pricing for activities stored before the XP breakdown existed
+ */
+function hadStreakBonus(activity: StravaActivity, rules: XPRuleSet): boolean {
+  if (activity.xpBreakdown) {
+    return activity.xpBreakdown.streakBonus > 0;
+  }
+  // Breakdown-less activities predate the effort bonus and XP limits, so compare to base XP
+  return (activity.xpEarned || 0) > calculateBaseXP(activity, rules, {}).baseXP;
+}
+
 // ============================================================================
 // GAME PROFILE UPDATE
 // ============================================================================
 
 /**
- * Updates user's game profile with XP and progression
+ * Adds (or subtracts) XP outside of activity processing and recalculates level and tier
+ * Total XP never drops below zero
  */
-export async function updateGameProfile(
-  userId: string,
+export function addXPToGameProfile(currentGame: GameProfile, xpToAdd: number): GameProfile {
+  const newTotalXP = Math.max(0, currentGame.totalXP + xpToAdd);
+  const { level, currentLevelXP, nextLevelXP } = calculateLevel(newTotalXP);
+
+  return {
+    ...currentGame,
+    totalXP: newTotalXP,
+    level,
+    currentLevelXP,
+    nextLevelXP,
+    tier: getCharacterTier(level),
+  };
+}
+
+/**
+ * Tracks the XP manual activities earned on the most recent local day, for the daily cap
+ * Activities on earlier days (e.g. from a history import) leave the tracking unchanged
+ * @param xpDelta - XP to add to (or remove from) the activity's day
+ */
+function trackManualXP(
+  game: GameProfile | undefined,
   activity: StravaActivity,
-  xpResult: XPCalculationResult,
-): Promise<void> {
-  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
-  const userDoc = await userRef.get();
+  xpDelta: number,
+): Pick<GameProfile, 'manualXPDay' | 'manualXPEarned'> {
+  const day = getActivityLocalDay(activity);
+
+  if (!activity.manual || (game?.manualXPDay && day < game.manualXPDay)) {
+    return game?.manualXPDay
+      ? { manualXPDay: game.manualXPDay, manualXPEarned: game.manualXPEarned || 0 }
+      : {};
+  }
+
+  return {
+    manualXPDay: day,
+    manualXPEarned: Math.max(0, getManualXPEarned(game, day) + xpDelta),
+  };
+}
+
+/**
+ * Tracks the activity XP earned on the most recent local day, for the daily XP limit
+ * Activities on earlier days (e.g. from a history import) leave the tracking unchanged
+ * @param xpDelta - XP to add to (or remove from) the activity's day
+ */
+function trackDailyXP(
+  game: GameProfile | undefined,
+  activity: StravaActivity,
+  xpDelta: number,
+): Pick<GameProfile, 'dailyXPDay' | 'dailyXPEarned' | 'dailyXPResetDate'> {
+  const day = getActivityLocalDay(activity);
 
-  if (!userDoc.exists) {
-    logger.error(`User ${userId} not found`);
-    return;
+  if (game?.dailyXPDay && day < game.dailyXPDay) {
+    return {
+      dailyXPDay: game.dailyXPDay,
+      dailyXPEarned: game.dailyXPEarned || 0,
+      ...(game.dailyXPResetDate && { dailyXPResetDate: game.dailyXPResetDate }),
+    };
   }
 
-  const userData = userDoc.data();
-  const currentGame = userData?.game as GameProfile | undefined;
+  const timeZone = parseStravaTimezone(activity.timezone) ?? game?.timezone;
+  return {
+    dailyXPDay: day,
+    dailyXPEarned: Math.max(0, getDailyXPEarned(game, day) + xpDelta),
+    dailyXPResetDate: Timestamp.fromDate(getLocalDayEnd(day, timeZone)),
+  };
+}
+
+/**
+ * Tracks an activity's XP towards the per-day manual and daily XP limits
+ */
+function trackDayXP(
+  game: GameProfile | undefined,
+  activity: StravaActivity,
+  xpDelta: number,
+): Partial<GameProfile> {
+  return {
+    ...trackManualXP(game, activity, xpDelta),
+    ...trackDailyXP(game, activity, xpDelta),
+  };
+}
 
+/**
+ * Applies an activity's XP, streak and attributes to a game profile
+ * Pure counterpart of awardActivityXP, also used when replaying history
+ */
+export function progressGameProfile(
+  currentGame: GameProfile | undefined,
+  activity: StravaActivity,
+  xpResult: XPCalculationResult,
+): GameProfile {
   // Calculate new total XP
   const newTotalXP = (currentGame?.totalXP || 0) + xpResult.totalXP;
 
@@ -260,54 +719,211 @@ export async function updateGameProfile(
 
   // Update streak
   const activityDate = new Date(activity.start_date);
-  const { streakCount, streakActive } = updateStreak(
-    currentGame?.lastActivityDate,
+  const { streakCount, streakActive, lastActivityDay, streakFreezes, frozenDay } = updateStreak(
+    getLastActivityDay(currentGame),
     currentGame?.streakCount || 0,
-    activityDate,
+    getActivityLocalDay(activity),
+    currentGame?.streakFreezes || 0,
+  );
+  const streakFreezeHistory = frozenDay
+    ? [
+        ...(currentGame?.streakFreezeHistory ?? []),
+        { day: frozenDay, usedAt: Timestamp.now() },
+      ].slice(-GAME_CONFIG.STREAK_FREEZE_HISTORY_LIMIT)
+    : currentGame?.streakFreezeHistory;
+  const isLatest =
+    !currentGame?.lastActivityDate || activityDate >= toDate(currentGame.lastActivityDate);
+
+  // Grow character attributes
+  const attributes = applyAttributeGains(
+    currentGame?.attributes,
+    calculateAttributeGains(activity),
   );
 
-  // Update game profile
-  const updatedGame: GameProfile = {
+  return {
+    ...currentGame,
     totalXP: newTotalXP,
     level,
     currentLevelXP,
     nextLevelXP,
     streakCount,
     streakActive,
-    lastActivityDate: Timestamp.fromDate(activityDate),
+    lastActivityDate: isLatest ? Timestamp.fromDate(activityDate) : currentGame?.lastActivityDate,
+    ...(isLatest && activity.timezone && { timezone: parseStravaTimezone(activity.timezone) }),
+    lastActivityDay,
+    streakFreezes,
+    ...(streakFreezeHistory && { streakFreezeHistory }),
     tier: getCharacterTier(level),
+    attributes,
+    ...trackDayXP(currentGame, activity, xpResult.totalXP),
   };
+}
 
-  await userRef.update({
-    game: updatedGame,
+/**
+ * Prices an activity and applies it to the game profile
+ * Queues the game profile update and ledger entries on the caller's transaction,
+ * so all reads must already be done
+ * @param transaction - Transaction that also records the award on the activity
+ * @param userId - Firebase user ID
+ * @param currentGame - Game profile read inside the transaction
+ * @param activity - Activity to award
+ * @param rules - XP rules to price the activity with
+ * @param athlete - Athlete settings to price the activity with
+ * @returns XP result for the activity
+ */
+export function awardActivityXP(
+  transaction: Transaction,
+  userId: string,
+  currentGame: GameProfile | undefined,
+  activity: StravaActivity,
+  rules: XPRuleSet,
+  athlete: AthleteProfile,
+): XPCalculationResult {
+  const xpResult = priceActivity(activity, {
+    streakActive: !!currentGame?.streakActive,
+    manualXPToday: getManualXPEarned(currentGame, getActivityLocalDay(activity)),
+    dailyXPToday: getDailyXPEarned(currentGame, getActivityLocalDay(activity)),
+    rules,
+    athlete,
+  });
+  const updatedGame = progressGameProfile(currentGame, activity, xpResult);
+
+  const ledgerFields = writeLedgerEntries(
+    transaction,
+    currentGame,
+    buildActivityLedgerEntries(userId, currentGame?.totalXP || 0, activity, xpResult),
+  );
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  transaction.update(userRef, {
+    game: { ...updatedGame, ...ledgerFields },
     updatedAt: Timestamp.now(),
   });
 
   logger.info(
-    `Game profile updated for user ${userId}: ` +
-      `+${xpResult.totalXP} XP (Total: ${newTotalXP}), ` +
-      `Level ${level}, Streak: ${streakCount} days`,
+    `Awarded activity ${activity.id} to user ${userId}: ` +
+      `+${xpResult.totalXP} XP (Total: ${updatedGame.totalXP}), Level ${updatedGame.level}`,
   );
+
+  return xpResult;
 }
 
 /**
- * Initializes game profile for new users
+ * Reverses the XP and attributes a stored activity was awarded and, for updates, re-prices it
+ * Queues the game profile update and ledger entries on the caller's transaction,
+ * so all reads must already be done
+ * @param transaction - Transaction that also rewrites or deletes the activity
+ * @param userId - Firebase user ID
+ * @param currentGame - Game profile read inside the transaction
+ * @param oldActivity - Activity as stored, with its original xpEarned
+ * @param newActivity - Updated activity from Strava, or null when it was deleted
+ * @param rules - XP rules to re-price the updated activity with
+ * @param athlete - Athlete settings to re-price the updated activity with
+ * @param reason - Ledger label for the reversal, defaults to Updated/Deleted
+ * @returns XP result for the updated activity, or null for deletions
  */
-export async function initializeGameProfile(userId: string): Promise<void> {
+export function reviseActivityXP(
+  transaction: Transaction,
+  userId: string,
+  currentGame: GameProfile | undefined,
+  oldActivity: StravaActivity,
+  newActivity: StravaActivity | null,
+  rules: XPRuleSet,
+  athlete: AthleteProfile,
+  reason: string = newActivity ? 'Updated' : 'Deleted',
+): XPCalculationResult | null {
+  const game = currentGame ?? getInitialGameProfile();
+  const oldXP = oldActivity.xpEarned || 0;
+
+  // Take the old activity out of the per-day XP tracking before re-pricing
+  const oldDayTracking = trackDayXP(game, oldActivity, -oldXP);
+  const dayTracking = { ...game, ...oldDayTracking };
+
+  // Re-price with the streak state the activity was originally awarded under
+  const xpResult = newActivity
+    ? priceActivity(newActivity, {
+        streakActive: hadStreakBonus(oldActivity, rules),
+        manualXPToday: getManualXPEarned(dayTracking, getActivityLocalDay(newActivity)),
+        dailyXPToday: getDailyXPEarned(dayTracking, getActivityLocalDay(newActivity)),
+        rules,
+        athlete,
+      })
+    : null;
+
+  const reversedXP = Math.min(oldXP, game.totalXP);
+  const newTotalXP = game.totalXP - reversedXP + (xpResult?.totalXP ?? 0);
+  const { level, currentLevelXP, nextLevelXP } = calculateLevel(newTotalXP);
+
+  let attributes = applyAttributeGains(game.attributes, calculateAttributeGains(oldActivity), -1);
+  if (newActivity) {
+    attributes = applyAttributeGains(attributes, calculateAttributeGains(newActivity));
+  }
+
+  const updatedGame: GameProfile = {
+    ...game,
+    totalXP: newTotalXP,
+    level,
+    currentLevelXP,
+    nextLevelXP,
+    tier: getCharacterTier(level),
+    attributes,
+    ...oldDayTracking,
+    ...(newActivity && xpResult && trackDayXP(dayTracking, newActivity, xpResult.totalXP)),
+  };
+
+  const reversalEntries = buildLedgerEntries(userId, game.totalXP, [
+    {
+      type: 'reversal',
+      amount: -reversedXP,
+      description: `${reason}: ${oldActivity.name}`,
+      activityId: oldActivity.id,
+    },
+  ]);
+  const awardEntries =
+    newActivity && xpResult
+      ? buildActivityLedgerEntries(userId, game.totalXP - reversedXP, newActivity, xpResult)
+      : [];
+  const ledgerFields = writeLedgerEntries(transaction, game, [...reversalEntries, ...awardEntries]);
+
   const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  transaction.update(userRef, {
+    game: { ...updatedGame, ...ledgerFields },
+    updatedAt: Timestamp.now(),
+  });
+
+  logger.info(
+    `Revised XP for activity ${oldActivity.id} of user ${userId}: ` +
+      `-${reversedXP} +${xpResult?.totalXP ?? 0} XP (Total: ${newTotalXP}), Level ${level}`,
+  );
+
+  return xpResult;
+}
 
-  const initialGame: GameProfile = {
+/**
+ * Returns the game profile of a brand new character
+ */
+export function getInitialGameProfile(): GameProfile {
+  return {
     totalXP: 0,
     level: 1,
     currentLevelXP: 0,
     nextLevelXP: getXPRequiredForLevel(2),
     streakCount: 0,
     streakActive: false,
+    streakFreezes: 0,
+    dailyXPEarned: 0,
     tier: 'Novice',
+    attributes: getInitialAttributes(),
   };
+}
+
+/**
+ * Initializes game profile for new users
+ */
+export async function initializeGameProfile(userId: string): Promise<void> {
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
 
   await userRef.update({
-    game: initialGame,
+    game: getInitialGameProfile(),
     updatedAt: Timestamp.now(),
   });
 
@@ -322,6 +938,8 @@ export const getGameProfile = onCall(async (request): Promise<GameProfileRespons
     throw new HttpsError('unauthenticated', 'User must be authenticated.');
   }
 
+  parseData(emptyDataSchema, request.data);
+
   const userId = request.auth.uid;
 
   try {
@@ -342,12 +960,14 @@ export const getGameProfile = onCall(async (request): Promise<GameProfileRespons
       return {
         status: 'success',
         game: initializedGame,
+        dailyXP: getDailyXPStatus(initializedGame, new Date()),
       };
     }
 
     return {
       status: 'success',
       game,
+      dailyXP: getDailyXPStatus(game, new Date()),
     };
   } catch (error) {
     logger.error('Error getting game profile:', error);
@@ -362,72 +982,68 @@ export const getGameProfile = onCall(async (request): Promise<GameProfileRespons
 /**
  * Adds or subtracts debug XP for local testing
  */
-export const addDebugXP = onCall(
-  async (request): Promise<{ status: string; newTotalXP: number; newLevel: number }> => {
-    // Optional check: only allow in development. For now just require auth.
-    if (!request.auth) {
-      throw new HttpsError('unauthenticated', 'User must be authenticated.');
-    }
-
-    const { xpToAdd } = request.data as { xpToAdd: number };
-    if (typeof xpToAdd !== 'number') {
-      throw new HttpsError('invalid-argument', 'xpToAdd must be a number');
-    }
-
-    const userId = request.auth.uid;
-
-    try {
-      const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
-      const userDoc = await userRef.get();
-
-      if (!userDoc.exists) {
-        throw new HttpsError('not-found', 'User profile not found');
-      }
+export const addDebugXP = onCall(async (request): Promise<AddDebugXPResponse> => {
+  // Optional check: only allow in development. For now just require auth.
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
 
-      const userData = userDoc.data();
-      const currentGame = userData?.game as GameProfile | undefined;
+  const { xpToAdd } = parseData(addDebugXPDataSchema, request.data);
 
-      if (!currentGame) {
-        throw new HttpsError('failed-precondition', 'Game profile not initialized');
-      }
+  const userId = request.auth.uid;
 
-      // Calculate new total XP (preventing negative XP for safety on subtraction)
-      const newTotalXP = Math.max(0, currentGame.totalXP + xpToAdd);
+  try {
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+    const userDoc = await userRef.get();
 
-      // Recalculate level
-      const { level, currentLevelXP, nextLevelXP } = calculateLevel(newTotalXP);
+    if (!userDoc.exists) {
+      throw new HttpsError('not-found', 'User profile not found');
+    }
 
-      const updatedGame: GameProfile = {
-        ...currentGame,
-        totalXP: newTotalXP,
-        level,
-        currentLevelXP,
-        nextLevelXP,
-        tier: getCharacterTier(level),
-      };
+    const userData = userDoc.data();
+    const currentGame = userData?.game as GameProfile | undefined;
 
-      await userRef.update({
-        game: updatedGame,
-        updatedAt: Timestamp.now(),
-      });
+    if (!currentGame) {
+      throw new HttpsError('failed-precondition', 'Game profile not initialized');
+    }
 
-      logger.info(
-        `Debug XP applied for user ${userId}: ${xpToAdd > 0 ? '+' : ''}${xpToAdd} XP. ` +
-          `New Total: ${newTotalXP}, New Level: ${level}`,
-      );
+    const updatedGame = addXPToGameProfile(currentGame, xpToAdd);
+    const { totalXP: newTotalXP, level } = updatedGame;
+
+    const batch = db.batch();
+    const ledgerFields = writeLedgerEntries(
+      batch,
+      currentGame,
+      buildLedgerEntries(userId, currentGame.totalXP, [
+        {
+          type: 'debug',
+          amount: newTotalXP - currentGame.totalXP,
+          description: 'Debug XP adjustment',
+        },
+      ]),
+    );
+    batch.update(userRef, {
+      game: { ...updatedGame, ...ledgerFields },
+      updatedAt: Timestamp.now(),
+    });
+    await batch.commit();
+
+    logger.info(
+      `Debug XP applied for user ${userId}: ${xpToAdd > 0 ? '+' : ''}${xpToAdd} XP. ` +
+        `New Total: ${newTotalXP}, New Level: ${level}`,
+    );
 
-      return {
-        status: 'success',
-        newTotalXP,
-        newLevel: level,
-      };
-    } catch (error) {
-      logger.error('Error adding debug XP:', error);
-      throw new HttpsError(
-        'internal',
-        'Failed to add debug XP',
-        error instanceof Error ? error.message : undefined,
-      );
-    }
-  },
-);
+    return {
+      status: 'success',
+      newTotalXP,
+      newLevel: level,
+    };
+  } catch (error) {
+    logger.error('Error adding debug XP:', error);
+    throw new HttpsError(
+      'internal',
+      'Failed to add debug XP',
+      error instanceof Error ? error.message : undefined,
+    );
+  }
+});
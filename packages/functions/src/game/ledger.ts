@@ -0,0 +1,233 @@
+import { getXPHistoryDataSchema } from '@endu/shared/schemas';
+import {
+  GameProfile,
+  StravaActivity,
+  XPCalculationResult,
+  XPHistoryResponse,
+  XPLedgerEntry,
+  XPLedgerEntryType,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
+import { DocumentReference, FieldPath, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+
+// Digits ledger entry numbers are padded to, so entry IDs sort in the order they were written
+const LEDGER_NUMBER_DIGITS = 9;
+
+/**
+ * Anything that can queue a document write (WriteBatch or Transaction)
+ * Lets ledger entries be committed atomically with the game profile update
+ */
+export interface LedgerWriter {
+  create(documentRef: DocumentReference, data: XPLedgerEntry): unknown;
+}
+
+interface LedgerEntryInput {
+  type: XPLedgerEntryType;
+  amount: number;
+  description: string;
+  activityId?: number;
+}
+
+/**
+ * Builds ledger entries with running balances, skipping zero-amount entries
+ * @param userId - Firebase user ID
+ * @param balanceBefore - User's total XP before these entries
+ * @param inputs - Entries in the order they are applied
+ */
+export function buildLedgerEntries(
+  userId: string,
+  balanceBefore: number,
+  inputs: LedgerEntryInput[],
+): XPLedgerEntry[] {
+  const createdAt = Timestamp.now();
+  let balance = balanceBefore;
+
+  return inputs
+    .filter((input) => input.amount !== 0)
+    .map((input) => {
+      balance += input.amount;
+      return {
+        userId,
+        type: input.type,
+        amount: input.amount,
+        balanceAfter: balance,
+        ...(input.activityId !== undefined && { activityId: input.activityId }),
+        description: input.description,
+        createdAt,
+      };
+    });
+}
+
+/**
+ * Builds the ledger entries for XP awarded by an activity
+ * Splits the award into its distance/time, elevation, effort and streak bonus components,
+ * less any manual activity and daily limit reductions
+ */
+export function buildActivityLedgerEntries(
+  userId: string,
+  balanceBefore: number,
+  activity: StravaActivity,
+  xpResult: XPCalculationResult,
+): XPLedgerEntry[] {
+  return buildLedgerEntries(userId, balanceBefore, [
+    {
+      type: 'activity',
+      amount: xpResult.baseXP - xpResult.elevationXP,
+      description: `${activity.type}${xpResult.powerBased ? ' (power)' : ''}: ${activity.name}`,
+      activityId: activity.id,
+    },
+    {
+      type: 'elevation',
+      amount: xpResult.elevationXP,
+      description: `${Math.round(activity.total_elevation_gain)} m elevation gain`,
+      activityId: activity.id,
+    },
+    {
+      type: 'effort',
+      amount: xpResult.effortBonus ?? 0,
+      description: 'Heart-rate effort bonus',
+      activityId: activity.id,
+    },
+    {
+      type: 'streak_bonus',
+      amount: xpResult.streakBonus,
+      description: 'Streak bonus',
+      activityId: activity.id,
+    },
+    {
+      type: 'manual',
+      amount: -(xpResult.manualReduction ?? 0),
+      description:
+        xpResult.manualPolicy === 'daily_cap'
+          ? 'Manual activity daily cap'
+          : 'Manual activity reduction',
+      activityId: activity.id,
+    },
+    {
+      type: 'daily_limit',
+      amount: -(xpResult.dailyLimitReduction ?? 0),
+      description: 'Daily XP limit',
+      activityId: activity.id,
+    },
+  ]);
+}
+
+/**
+ * Queues ledger entries on a batch or transaction, numbered after the user's previous entries
+ * Entry IDs follow from the game profile the entries were built from, so writing entries twice
+ * from the same profile fails instead of recording the XP twice
+ * @param currentGame - Game profile the entries were built from
+ * @returns Game profile fields to store with the entries
+ */
+export function writeLedgerEntries(
+  writer: LedgerWriter,
+  currentGame: GameProfile | undefined,
+  entries: XPLedgerEntry[],
+): Pick<GameProfile, 'ledgerEntryCount'> {
+  let ledgerEntryCount = currentGame?.ledgerEntryCount ?? 0;
+  for (const entry of entries) {
+    const entryId = `${entry.userId}_${String(ledgerEntryCount).padStart(LEDGER_NUMBER_DIGITS, '0')}`;
+    writer.create(db.collection(FIRESTORE_COLLECTIONS.XP_LEDGER).doc(entryId), entry);
+    ledgerEntryCount++;
+  }
+  return { ledgerEntryCount };
+}
+
+/**
+ * Encodes the position after a ledger entry as an opaque page cursor
+ * Keeps the timestamp's nanoseconds, so the cursor lands exactly on the entry
+ */
+export function encodeXPHistoryCursor(createdAt: Timestamp, entryId: string): string {
+  return Buffer.from(JSON.stringify([createdAt.seconds, createdAt.nanoseconds, entryId])).toString(
+    'base64url',
+  );
+}
+
+/**
+ * Decodes a page cursor into the creation time and ID of the last entry returned
+ * @throws HttpsError invalid-argument when the cursor was not issued by encodeXPHistoryCursor
+ */
+export function decodeXPHistoryCursor(cursor: string): [Timestamp, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 3 &&
+      Number.isSafeInteger(decoded[0]) &&
+      Number.isInteger(decoded[1]) &&
+      decoded[1] >= 0 &&
+      decoded[1] < 1e9 &&
+      typeof decoded[2] === 'string' &&
+      decoded[2].length > 0
+    ) {
+      return [new Timestamp(decoded[0], decoded[1]), decoded[2]];
+    }
+  } catch {
+    // Fall through to the invalid-argument error below
+  }
+  throw new HttpsError('invalid-argument', 'cursor is invalid.');
+}
+
+/**
+ * Gets the current user's XP ledger, newest entries first, a page at a time
+ * Pass the returned nextCursor back to get the following page
+ */
+export const getXPHistory = onCall(async (request): Promise<XPHistoryResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  const userId = request.auth.uid;
+  const { cursor, perPage = 30 } = parseData(getXPHistoryDataSchema, request.data);
+  const startAfter = cursor ? decodeXPHistoryCursor(cursor) : null;
+
+  try {
+    // Entries written together share createdAt, so order by document ID, which numbers them too
+    let query = db
+      .collection(FIRESTORE_COLLECTIONS.XP_LEDGER)
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .orderBy(FieldPath.documentId(), 'desc');
+    if (startAfter) {
+      query = query.startAfter(...startAfter);
+    }
+
+    // Read one extra entry to know whether another page follows
+    const snapshot = await query.limit(perPage + 1).get();
+    const docs = snapshot.docs.slice(0, perPage);
+
+    const entries = docs.map((doc) => {
+      const data = doc.data() as XPLedgerEntry;
+      return {
+        ...data,
+        id: doc.id,
+        createdAt: toDate(data.createdAt).toISOString(),
+      };
+    });
+
+    logger.info(`Retrieved ${entries.length} XP ledger entries for user: ${userId}`);
+
+    const lastDoc = docs[docs.length - 1];
+    const hasMore = snapshot.size > perPage;
+
+    return {
+      status: 'success',
+      entries,
+      nextCursor: hasMore
+        ? encodeXPHistoryCursor(
+            (lastDoc.data() as XPLedgerEntry).createdAt as Timestamp,
+            lastDoc.id,
+          )
+        : null,
+    };
+  } catch (error) {
+    handleError(error, 'Error getting XP history:', 'Failed to get XP history.');
+  }
+});
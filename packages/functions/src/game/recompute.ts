@@ -0,0 +1,307 @@
+import { emptyDataSchema, recomputeGameProfilesDataSchema } from '@endu/shared/schemas';
+import {
+  AthleteProfile,
+  GameProfile,
+  GameProfileResponse,
+  RecomputeGameProfilesResponse,
+  ReplayResult,
+  StoredActivity,
+  StravaActivity,
+  UserProfile,
+  UserStats,
+  XPRuleSet,
+} from '@endu/shared/types';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { db } from '../admin';
+import { isCounted } from '../anticheat/duplicates';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { applyActivityToStats } from '../strava/strava';
+import { createThrottle, firestoreThrottleStore } from '../strava/throttle';
+import {
+  addXPToGameProfile,
+  getActivityLocalDay,
+  getAthleteProfile,
+  getDailyXPEarned,
+  getInitialGameProfile,
+  getManualXPEarned,
+  priceActivity,
+  progressGameProfile,
+} from './game';
+import { buildLedgerEntries, writeLedgerEntries } from './ledger';
+import { loadXPRules } from './rules';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+// Default number of users processed per admin call
+const DEFAULT_ADMIN_LIMIT = 50;
+
+// Times a recompute starts over when activities land while it runs
+const MAX_RECOMPUTE_ATTEMPTS = 3;
+
+// Each recompute reads every activity of the user, so users may only run a few per hour
+const RECOMPUTE_THROTTLE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_RECOMPUTES_PER_USER = 5;
+
+const recomputeThrottle = createThrottle({
+  store: firestoreThrottleStore,
+  limit: MAX_RECOMPUTES_PER_USER,
+  windowMs: RECOMPUTE_THROTTLE_WINDOW_MS,
+});
+
+/**
+ * Sorts activities chronologically, breaking ties by activity ID
+ */
+function sortChronologically<T extends StravaActivity>(activities: T[]): T[] {
+  return [...activities].sort((a, b) => {
+    const diff = new Date(a.start_date).getTime() - new Date(b.start_date).getTime();
+    return diff !== 0 ? diff : a.id - b.id;
+  });
+}
+
+/**
+ * Replays activities oldest-first through the XP, streak and level rules
+ * Deterministic: the same activities always produce the same result
+ */
+export function replayActivities(
+  activities: StravaActivity[],
+  rules: XPRuleSet,
+  athlete: AthleteProfile,
+): ReplayResult {
+  let game: GameProfile = getInitialGameProfile();
+  let stats: UserStats = {
+    totalDistance: 0,
+    totalMovingTime: 0,
+    totalElevationGain: 0,
+    activitiesCount: 0,
+    cyclingDistance: 0,
+  };
+  const replayed: ReplayResult['activities'] = [];
+
+  // Activities held or rejected by anti-cheat and duplicates earn nothing
+  for (const activity of sortChronologically(activities.filter(isCounted))) {
+    // Price with the streak state before this activity, like awardActivityXP does
+    const xpResult = priceActivity(activity, {
+      streakActive: game.streakActive,
+      manualXPToday: getManualXPEarned(game, getActivityLocalDay(activity)),
+      dailyXPToday: getDailyXPEarned(game, getActivityLocalDay(activity)),
+      rules,
+      athlete,
+    });
+    game = progressGameProfile(game, activity, xpResult);
+    stats = applyActivityToStats(stats, activity, true);
+    replayed.push({ activity, xpResult });
+  }
+
+  return { game, stats, activities: replayed };
+}
+
+/**
+ * Rebuilds a user's game profile, stats and per-activity XP from stored activities
+ * Activities are rewritten in chunks, so this is not atomic; re-running it is safe.
+ * When an activity lands while it runs, the profile is left alone and recomputed again
+ * @param userId - Firebase user ID
+ * @returns The recomputed game profile
+ */
+export async function recomputeUserGameState(userId: string): Promise<GameProfile> {
+  for (let attempt = 1; ; attempt++) {
+    const recomputedGame = await tryRecomputeUserGameState(userId);
+    if (recomputedGame) {
+      return recomputedGame;
+    }
+
+    if (attempt >= MAX_RECOMPUTE_ATTEMPTS) {
+      throw new HttpsError('aborted', 'Game profile kept changing during recompute.');
+    }
+    logger.warn(`Game profile for user ${userId} changed during recompute, retrying`);
+  }
+}
+
+/**
+ * Recomputes a user's game state once
+ * @returns The recomputed game profile, or null when the user doc changed since it was read
+ */
+async function tryRecomputeUserGameState(userId: string): Promise<GameProfile | null> {
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  const userDoc = await userRef.get();
+
+  if (!userDoc.exists) {
+    throw new HttpsError('not-found', 'User profile not found');
+  }
+
+  const currentGame = userDoc.data()?.game as GameProfile | undefined;
+
+  const activitiesSnapshot = await db
+    .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+    .where('userId', '==', userId)
+    .get();
+
+  const storedActivities = activitiesSnapshot.docs.map((doc) => doc.data() as StoredActivity);
+  const { game, stats, activities } = replayActivities(
+    storedActivities,
+    await loadXPRules(),
+    getAthleteProfile(userDoc.data() as UserProfile),
+  );
+
+  // Only non-activity XP rewards are kept and re-added, and the ledger numbering is kept by the
+  // ledger write below; all other fields derive from activities
+  const bonusXP = currentGame?.bonusXP || 0;
+  const recomputedGame = addXPToGameProfile({ ...game, ...(bonusXP && { bonusXP }) }, bonusXP);
+
+  // Rewrite per-activity XP in chunks
+  for (let i = 0; i < activities.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const { activity, xpResult } of activities.slice(i, i + BATCH_SIZE)) {
+      const activityRef = db
+        .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+        .doc(`${userId}_${activity.id}`);
+      batch.update(activityRef, {
+        xpEarned: xpResult.totalXP,
+        xpBreakdown: xpResult,
+        updatedAt: Timestamp.now(),
+      });
+    }
+    await batch.commit();
+  }
+
+  // Profile, stats and the ledger adjustment are written together, only if no activity was
+  // awarded or revised since the user doc was read
+  const previousTotalXP = currentGame?.totalXP || 0;
+  const written = await db.runTransaction(async (transaction) => {
+    const latestDoc = await transaction.get(userRef);
+    if (!userDoc.updateTime || !latestDoc.updateTime?.isEqual(userDoc.updateTime)) {
+      return false;
+    }
+
+    const ledgerFields = writeLedgerEntries(
+      transaction,
+      currentGame,
+      buildLedgerEntries(userId, previousTotalXP, [
+        {
+          type: 'recompute',
+          amount: recomputedGame.totalXP - previousTotalXP,
+          description: `Recomputed from ${activities.length} activities`,
+        },
+      ]),
+    );
+    transaction.update(userRef, {
+      game: { ...recomputedGame, ...ledgerFields },
+      stats,
+      updatedAt: Timestamp.now(),
+    });
+    return true;
+  });
+  if (!written) {
+    return null;
+  }
+
+  logger.info(
+    `Recomputed game profile for user ${userId} from ${activities.length} activities: ` +
+      `${previousTotalXP} → ${recomputedGame.totalXP} XP, Level ${recomputedGame.level}, ` +
+      `Streak: ${recomputedGame.streakCount} days`,
+  );
+
+  return recomputedGame;
+}
+
+/**
+ * Recomputes the current user's game profile from their stored activities
+ */
+export const recomputeGameProfile = onCall(async (request): Promise<GameProfileResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  parseData(emptyDataSchema, request.data);
+
+  const userId = request.auth.uid;
+
+  try {
+    if (!(await recomputeThrottle.take(`recompute_${userId}`))) {
+      throw new HttpsError('resource-exhausted', 'Too many recomputes, try again later.');
+    }
+
+    const game = await recomputeUserGameState(userId);
+
+    return {
+      status: 'success',
+      game,
+    };
+  } catch (error) {
+    handleError(error, 'Error recomputing game profile:', 'Failed to recompute game profile.');
+  }
+});
+
+/**
+ * Admin: recomputes game profiles for the given users, or walks all users in pages
+ * Requires the `admin` custom claim
+ */
+export const recomputeGameProfiles = onCall(
+  async (request): Promise<RecomputeGameProfilesResponse> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'User must be authenticated.');
+    }
+
+    if (request.auth.token.admin !== true) {
+      throw new HttpsError('permission-denied', 'Admin privileges required.');
+    }
+
+    const {
+      userIds,
+      startAfter,
+      limit = DEFAULT_ADMIN_LIMIT,
+    } = parseData(recomputeGameProfilesDataSchema, request.data);
+
+    try {
+      let targetIds: string[];
+      let nextStartAfter: string | null = null;
+
+      if (userIds && userIds.length > 0) {
+        targetIds = userIds;
+      } else {
+        let query = db
+          .collection(FIRESTORE_COLLECTIONS.USERS)
+          .orderBy(FieldPath.documentId())
+          .limit(limit);
+        if (startAfter) {
+          query = query.startAfter(startAfter);
+        }
+
+        const usersSnapshot = await query.get();
+        targetIds = usersSnapshot.docs.map((doc) => doc.id);
+        if (usersSnapshot.size === limit) {
+          nextStartAfter = targetIds[targetIds.length - 1];
+        }
+      }
+
+      const failed: string[] = [];
+      for (const userId of targetIds) {
+        try {
+          await recomputeUserGameState(userId);
+        } catch (error) {
+          logger.error(`Failed to recompute game profile for user ${userId}:`, error);
+          failed.push(userId);
+        }
+      }
+
+      logger.info(
+        `Admin recompute by ${request.auth.uid}: ${targetIds.length - failed.length} succeeded, ` +
+          `${failed.length} failed`,
+      );
+
+      return {
+        status: 'success',
+        processed: targetIds.length - failed.length,
+        failed,
+        nextStartAfter,
+      };
+    } catch (error) {
+      handleError(error, 'Error recomputing game profiles:', 'Failed to recompute game profiles.');
+    }
+  },
+);
@@ -0,0 +1,237 @@
+import {
+  ManualActivityPolicy,
+  ManualActivityPolicyMode,
+  StravaActivity,
+  XPRule,
+  XPRuleSet,
+} from '@endu/shared/types';
+import * as logger from 'firebase-functions/logger';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { GAME_CONFIG } from './game.config';
+
+// Document in the game config collection that overrides the default rules
+const XP_RULES_DOC = 'xpRules';
+
+// How long loaded rules are reused by a function instance
+const RULES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const XP_FORMULAS = ['distance', 'time', 'hybrid'];
+
+const MANUAL_POLICY_MODES = ['multiplier', 'daily_cap', 'review'];
+
+/**
+ * Default rule table, derived from GAME_CONFIG
+ */
+export const DEFAULT_XP_RULES: XPRuleSet = {
+  xpPerMElevation: GAME_CONFIG.XP_PER_M_ELEVATION,
+  rules: [
+    {
+      sportTypes: GAME_CONFIG.RUNNING_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_RUN,
+    },
+    {
+      sportTypes: GAME_CONFIG.WALKING_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_WALK,
+    },
+    {
+      sportTypes: GAME_CONFIG.XC_SKI_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_XC_SKI,
+    },
+    { sportTypes: GAME_CONFIG.SKI_TYPES, formula: 'distance', xpPerKm: GAME_CONFIG.XP_PER_KM_SKI },
+    {
+      sportTypes: GAME_CONFIG.CYCLING_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_RIDE,
+      usePower: true,
+    },
+    {
+      sportTypes: GAME_CONFIG.SWIM_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_SWIM,
+    },
+    {
+      sportTypes: GAME_CONFIG.WORKOUT_TYPES,
+      formula: 'time',
+      xpPerMin: GAME_CONFIG.XP_PER_MIN_WORKOUT,
+    },
+    { sportTypes: GAME_CONFIG.YOGA_TYPES, formula: 'time', xpPerMin: GAME_CONFIG.XP_PER_MIN_YOGA },
+    {
+      sportTypes: GAME_CONFIG.PADDLE_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_PADDLE,
+    },
+    {
+      sportTypes: GAME_CONFIG.SKATE_TYPES,
+      formula: 'distance',
+      xpPerKm: GAME_CONFIG.XP_PER_KM_SKATE,
+    },
+    {
+      sportTypes: GAME_CONFIG.RACKET_TYPES,
+      formula: 'time',
+      xpPerMin: GAME_CONFIG.XP_PER_MIN_RACKET,
+    },
+    {
+      sportTypes: GAME_CONFIG.BOARD_TYPES,
+      formula: 'time',
+      xpPerMin: GAME_CONFIG.XP_PER_MIN_BOARD,
+    },
+  ],
+  manualPolicy: {
+    mode: GAME_CONFIG.MANUAL_ACTIVITY.POLICY as ManualActivityPolicyMode,
+    xpMultiplier: GAME_CONFIG.MANUAL_ACTIVITY.XP_MULTIPLIER,
+    dailyXPCap: GAME_CONFIG.MANUAL_ACTIVITY.DAILY_XP_CAP,
+  },
+};
+
+let cachedRules: { ruleSet: XPRuleSet; loadedAt: number } | null = null;
+
+/**
+ * Checks that a value is a finite, non-negative number
+ */
+function isValidRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validates one rule, returning a description of the first problem found
+ */
+function validateXPRule(rule: unknown, index: number): string | null {
+  const candidate = rule as Partial<XPRule> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    return `rules[${index}] must be an object`;
+  }
+  if (
+    !Array.isArray(candidate.sportTypes) ||
+    candidate.sportTypes.length === 0 ||
+    !candidate.sportTypes.every((type) => typeof type === 'string' && type.length > 0)
+  ) {
+    return `rules[${index}].sportTypes must be a non-empty list of sport types`;
+  }
+  if (!candidate.formula || !XP_FORMULAS.includes(candidate.formula)) {
+    return `rules[${index}].formula must be one of ${XP_FORMULAS.join(', ')}`;
+  }
+  if (candidate.formula !== 'time' && !isValidRate(candidate.xpPerKm)) {
+    return `rules[${index}].xpPerKm is required for the ${candidate.formula} formula`;
+  }
+  if (candidate.formula !== 'distance' && !isValidRate(candidate.xpPerMin)) {
+    return `rules[${index}].xpPerMin is required for the ${candidate.formula} formula`;
+  }
+  if (candidate.usePower !== undefined && typeof candidate.usePower !== 'boolean') {
+    return `rules[${index}].usePower must be a boolean`;
+  }
+  return null;
+}
+
+/**
+ * Validates a (partial) manual activity policy override
+ */
+function validateManualPolicy(policy: unknown): string[] {
+  const candidate = policy as Partial<ManualActivityPolicy> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    return ['manualPolicy must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (candidate.mode !== undefined && !MANUAL_POLICY_MODES.includes(candidate.mode)) {
+    errors.push(`manualPolicy.mode must be one of ${MANUAL_POLICY_MODES.join(', ')}`);
+  }
+  if (
+    candidate.xpMultiplier !== undefined &&
+    (!isValidRate(candidate.xpMultiplier) || candidate.xpMultiplier > 1)
+  ) {
+    errors.push('manualPolicy.xpMultiplier must be between 0 and 1');
+  }
+  if (candidate.dailyXPCap !== undefined && !isValidRate(candidate.dailyXPCap)) {
+    errors.push('manualPolicy.dailyXPCap must be a non-negative number');
+  }
+  return errors;
+}
+
+/**
+ * Validates a rule set override loaded from Firestore
+ * @returns A list of problems, empty when the override is valid
+ */
+export function validateXPRuleSet(data: unknown): string[] {
+  const candidate = data as Partial<XPRuleSet> | null;
+
+  if (!candidate || typeof candidate !== 'object') {
+    return ['XP rules must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (candidate.xpPerMElevation !== undefined && !isValidRate(candidate.xpPerMElevation)) {
+    errors.push('xpPerMElevation must be a non-negative number');
+  }
+  if (candidate.rules !== undefined) {
+    if (!Array.isArray(candidate.rules)) {
+      errors.push('rules must be a list');
+    } else {
+      candidate.rules.forEach((rule, i) => {
+        const error = validateXPRule(rule, i);
+        if (error) errors.push(error);
+      });
+    }
+  }
+  if (candidate.manualPolicy !== undefined) {
+    errors.push(...validateManualPolicy(candidate.manualPolicy));
+  }
+  return errors;
+}
+
+/**
+ * Layers an override on top of the default rules
+ * Override rules take precedence for the sport types they list
+ */
+function mergeXPRuleSet(override: Partial<XPRuleSet>): XPRuleSet {
+  return {
+    xpPerMElevation: override.xpPerMElevation ?? DEFAULT_XP_RULES.xpPerMElevation,
+    rules: [...(override.rules ?? []), ...DEFAULT_XP_RULES.rules],
+    manualPolicy: { ...DEFAULT_XP_RULES.manualPolicy, ...override.manualPolicy },
+  };
+}
+
+/**
+ * Loads the XP rule table from Firestore, falling back to the defaults
+ * An invalid override is logged and ignored so activity processing never stops
+ */
+export async function loadXPRules(): Promise<XPRuleSet> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULES_CACHE_TTL_MS) {
+    return cachedRules.ruleSet;
+  }
+
+  let ruleSet = DEFAULT_XP_RULES;
+  try {
+    const rulesDoc = await db.collection(FIRESTORE_COLLECTIONS.GAME_CONFIG).doc(XP_RULES_DOC).get();
+
+    if (rulesDoc.exists) {
+      const errors = validateXPRuleSet(rulesDoc.data());
+      if (errors.length > 0) {
+        logger.error(`Invalid XP rules override, using defaults: ${errors.join('; ')}`);
+      } else {
+        ruleSet = mergeXPRuleSet(rulesDoc.data() as Partial<XPRuleSet>);
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to load XP rules, using defaults:', error);
+  }
+
+  cachedRules = { ruleSet, loadedAt: Date.now() };
+  return ruleSet;
+}
+
+/**
+ * Finds the rule for an activity, matching sport_type first and the legacy type second
+ */
+export function findXPRule(ruleSet: XPRuleSet, activity: StravaActivity): XPRule | undefined {
+  return (
+    ruleSet.rules.find((rule) => rule.sportTypes.includes(activity.sport_type)) ??
+    ruleSet.rules.find((rule) => rule.sportTypes.includes(activity.type))
+  );
+}
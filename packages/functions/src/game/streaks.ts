@@ -0,0 +1,94 @@
+import { GameProfile } from '@endu/shared/types';
+import { DocumentSnapshot, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import { daysBetween, getLastActivityDay, toLocalDay } from './game';
+
+// Users processed per page by the expiry job
+const EXPIRY_PAGE_SIZE = 200;
+
+// gRPC status code Firestore fails a write with when its precondition doesn't hold
+const FAILED_PRECONDITION = 9;
+
+/**
+ * Checks whether a streak can no longer be continued as of the athlete's local day
+ * With a streak freeze, one missed day is still recoverable
+ */
+export function isStreakExpired(game: GameProfile, now: Date): boolean {
+  const lastActivityDay = getLastActivityDay(game);
+  if (game.streakCount === 0 || !lastActivityDay) {
+    return false;
+  }
+
+  const today = toLocalDay(now, game.timezone);
+  const maxGap = (game.streakFreezes || 0) > 0 ? 2 : 1;
+
+  // An activity today would be daysBetween(last, today) days after the last one
+  return daysBetween(lastActivityDay, today) > maxGap;
+}
+
+/**
+ * Resets a user's streak, unless their profile changed since it was read
+ * An activity stored in between may have continued the streak, so the user is left for the next run
+ * @returns Whether the streak was reset
+ */
+async function expireStreak(userDoc: QueryDocumentSnapshot): Promise<boolean> {
+  try {
+    await userDoc.ref.update(
+      {
+        'game.streakCount': 0,
+        'game.streakActive': false,
+        updatedAt: Timestamp.now(),
+      },
+      { lastUpdateTime: userDoc.updateTime },
+    );
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code !== FAILED_PRECONDITION) {
+      throw error;
+    }
+    logger.info(`User ${userDoc.id} changed since the streak check, skipping`);
+    return false;
+  }
+}
+
+/**
+ * Expires broken streaks so profiles don't show a stale streak until the next activity
+ * Runs hourly, so each user is expired shortly after midnight in their own timezone
+ */
+export const expireStreaks = onSchedule({ schedule: '0 * * * *', timeZone: 'UTC' }, async () => {
+  const now = new Date();
+  let lastDoc: DocumentSnapshot | undefined;
+  let expiredCount = 0;
+
+  while (true) {
+    let query = db
+      .collection(FIRESTORE_COLLECTIONS.USERS)
+      .where('game.streakCount', '>', 0)
+      .limit(EXPIRY_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const usersSnapshot = await query.get();
+    if (usersSnapshot.empty) {
+      break;
+    }
+
+    const expired = usersSnapshot.docs.filter((userDoc) =>
+      isStreakExpired(userDoc.data().game as GameProfile, now),
+    );
+    const results = await Promise.all(expired.map((userDoc) => expireStreak(userDoc)));
+    expiredCount += results.filter(Boolean).length;
+
+    lastDoc = usersSnapshot.docs[usersSnapshot.docs.length - 1];
+    if (usersSnapshot.size < EXPIRY_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  logger.info(`Expired ${expiredCount} streaks`);
+});
@@ -8,12 +8,30 @@ export {
   getUserActivities,
   disconnectStrava,
 } from './strava/strava';
+export { getStravaBackfill, startStravaBackfill, runStravaBackfills } from './strava/backfill';
 
 // Export user management functions
 export { getUserProfile, updateUserProfile, deleteUserAccount } from './user_management/user';
 
 // Export webhook functions
-export { stravaWebhook } from './strava/webhooks';
+export {
+  stravaWebhook,
+  processStravaWebhookEvent,
+  retryStravaWebhookEvents,
+} from './strava/webhooks';
 
 // Export game functions
 export { getGameProfile, addDebugXP } from './game/game';
+export { getXPHistory } from './game/ledger';
+export { recomputeGameProfile, recomputeGameProfiles } from './game/recompute';
+export { expireStreaks } from './game/streaks';
+
+// Export quest functions
+export { getQuests, rotateQuests } from './quests/quests';
+
+// Export achievement functions
+export { getAchievements } from './achievements/achievements';
+
+// Export anti-cheat functions
+export { getReviewQueue, resolveActivityReview } from './anticheat/anticheat';
+export { setCountedActivity } from './anticheat/duplicates';
@@ -0,0 +1,24 @@
+import { ValidationErrorDetails } from '@endu/shared/types';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { z } from 'zod';
+
+/**
+ * Validates a callable's request data against its schema from @endu/shared.
+ * Invalid data throws an 'invalid-argument' HttpsError with the first problem as
+ * its message and every problem, by field, as its details.
+ * @param {z.ZodType} schema The schema for the request data.
+ * @param {unknown} data The request data sent by the client.
+ * @return The parsed data, with optional fields sent as null read as undefined.
+ */
+export function parseData<T extends z.ZodType>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data ?? {});
+  if (!result.success) {
+    const { formErrors, fieldErrors } = z.flattenError(result.error);
+    const details: ValidationErrorDetails = {
+      formErrors,
+      fieldErrors: fieldErrors as Record<string, string[]>,
+    };
+    throw new HttpsError('invalid-argument', result.error.issues[0].message, details);
+  }
+  return result.data;
+}
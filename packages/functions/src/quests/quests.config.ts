@@ -0,0 +1,116 @@
+import { QuestDefinition } from '@endu/shared/types';
+
+import { GAME_CONFIG } from '../game/game.config';
+
+export const QUEST_CONFIG = {
+  DAILY_QUEST_COUNT: 3, // Quests assigned per day
+  WEEKLY_QUEST_COUNT: 3, // Quests assigned per week
+};
+
+export const QUEST_DEFINITIONS: QuestDefinition[] = [
+  // Daily quests
+  {
+    id: 'daily_run_5k',
+    period: 'daily',
+    title: 'Run 5 km today',
+    metric: 'distance',
+    target: 5000,
+    activityTypes: GAME_CONFIG.RUNNING_TYPES,
+    xpReward: 150,
+  },
+  {
+    id: 'daily_ride_20k',
+    period: 'daily',
+    title: 'Ride 20 km today',
+    metric: 'distance',
+    target: 20000,
+    activityTypes: GAME_CONFIG.CYCLING_TYPES,
+    xpReward: 150,
+  },
+  {
+    id: 'daily_walk_3k',
+    period: 'daily',
+    title: 'Walk or hike 3 km today',
+    metric: 'distance',
+    target: 3000,
+    activityTypes: GAME_CONFIG.WALKING_TYPES,
+    xpReward: 100,
+  },
+  {
+    id: 'daily_move_30min',
+    period: 'daily',
+    title: 'Move for 30 minutes today',
+    metric: 'moving_time',
+    target: 30 * 60,
+    xpReward: 100,
+  },
+  {
+    id: 'daily_climb_100m',
+    period: 'daily',
+    title: 'Climb 100 m today',
+    metric: 'elevation',
+    target: 100,
+    xpReward: 100,
+  },
+  {
+    id: 'daily_workout_20min',
+    period: 'daily',
+    title: 'Do a 20 minute workout today',
+    metric: 'moving_time',
+    target: 20 * 60,
+    activityTypes: [...GAME_CONFIG.WORKOUT_TYPES, ...GAME_CONFIG.YOGA_TYPES],
+    xpReward: 100,
+  },
+
+  // Weekly quests
+  {
+    id: 'weekly_climb_500m',
+    period: 'weekly',
+    title: 'Climb 500 m this week',
+    metric: 'elevation',
+    target: 500,
+    xpReward: 500,
+  },
+  {
+    id: 'weekly_three_sports',
+    period: 'weekly',
+    title: 'Do 3 different sport types this week',
+    metric: 'distinct_sport_types',
+    target: 3,
+    xpReward: 500,
+  },
+  {
+    id: 'weekly_run_20k',
+    period: 'weekly',
+    title: 'Run 20 km this week',
+    metric: 'distance',
+    target: 20000,
+    activityTypes: GAME_CONFIG.RUNNING_TYPES,
+    xpReward: 600,
+  },
+  {
+    id: 'weekly_ride_100k',
+    period: 'weekly',
+    title: 'Ride 100 km this week',
+    metric: 'distance',
+    target: 100000,
+    activityTypes: GAME_CONFIG.CYCLING_TYPES,
+    xpReward: 600,
+  },
+  {
+    id: 'weekly_five_activities',
+    period: 'weekly',
+    title: 'Log 5 activities this week',
+    metric: 'activity_count',
+    target: 5,
+    xpReward: 400,
+  },
+  {
+    id: 'weekly_move_5h',
+    period: 'weekly',
+    title: 'Move for 5 hours this week',
+    metric: 'moving_time',
+    target: 5 * 60 * 60,
+    xpReward: 500,
+  },
+];
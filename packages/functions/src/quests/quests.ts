@@ -0,0 +1,497 @@
+import { emptyDataSchema } from '@endu/shared/schemas';
+import {
+  GameProfile,
+  QuestContribution,
+  QuestDefinition,
+  QuestPeriod,
+  QuestProgress,
+  QuestSet,
+  QuestsResponse,
+  StravaActivity,
+  UserQuests,
+  XPLedgerEntry,
+} from '@endu/shared/types';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+import {
+  addDays,
+  addXPToGameProfile,
+  getActivityLocalDay,
+  getInitialGameProfile,
+  getLocalDayEnd,
+  toLocalDay,
+} from '../game/game';
+import { buildLedgerEntries, writeLedgerEntries } from '../game/ledger';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { QUEST_CONFIG, QUEST_DEFINITIONS } from './quests.config';
+
+// Users processed per page by the rotation job
+const ROTATION_PAGE_SIZE = 200;
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/**
+ * Gets the first local day (YYYY-MM-DD) of the daily or weekly (Monday-based) period
+ * containing a local day; periods follow the athlete's days, like streaks and daily XP
+ */
+export function getPeriodStartDay(period: QuestPeriod, day: string): string {
+  if (period === 'daily') {
+    return day;
+  }
+
+  // getUTCDay() of the day's UTC midnight: 0 = Sunday, shift so the week starts on Monday
+  const daysSinceMonday = (new Date(Date.parse(day)).getUTCDay() + 6) % 7;
+  return addDays(day, -daysSinceMonday);
+}
+
+/**
+ * Gets the moment a period that starts on a local day ends in the athlete's timezone
+ */
+export function getPeriodEnd(period: QuestPeriod, startDay: string, timeZone?: string): Date {
+  const lastDay = period === 'weekly' ? addDays(startDay, 6) : startDay;
+  return getLocalDayEnd(lastDay, timeZone);
+}
+
+// ============================================================================
+// ASSIGNMENT
+// ============================================================================
+
+/**
+ * Simple deterministic string hash (djb2)
+ */
+function hashString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Picks the quests a user gets for a period
+ * Deterministic per user and period, so re-running the rotation assigns the same quests
+ */
+export function selectQuests(
+  userId: string,
+  period: QuestPeriod,
+  periodKey: string,
+): QuestDefinition[] {
+  const count =
+    period === 'daily' ? QUEST_CONFIG.DAILY_QUEST_COUNT : QUEST_CONFIG.WEEKLY_QUEST_COUNT;
+
+  return QUEST_DEFINITIONS.filter((quest) => quest.period === period)
+    .map((quest) => ({ quest, rank: hashString(`${userId}:${periodKey}:${quest.id}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, count)
+    .map(({ quest }) => quest);
+}
+
+/**
+ * Creates a fresh quest set for the period containing the given local day
+ */
+function createQuestSet(
+  userId: string,
+  period: QuestPeriod,
+  day: string,
+  timeZone: string | undefined,
+): QuestSet {
+  const periodKey = getPeriodStartDay(period, day);
+
+  return {
+    periodKey,
+    endsAt: getPeriodEnd(period, periodKey, timeZone).toISOString(),
+    quests: selectQuests(userId, period, periodKey).map((quest) => ({
+      questId: quest.id,
+      title: quest.title,
+      metric: quest.metric,
+      target: quest.target,
+      progress: 0,
+      xpReward: quest.xpReward,
+      completed: false,
+      contributions: [],
+      ...(quest.metric === 'distinct_sport_types' && { sportTypes: [] }),
+    })),
+  };
+}
+
+/**
+ * Returns the user's quests for the current periods, rotating any that are stale
+ * @param timeZone - Athlete's IANA timezone; periods follow UTC days when it is unknown
+ * @returns The current quests and whether anything was rotated
+ */
+export function ensureCurrentQuests(
+  userId: string,
+  existing: UserQuests | undefined,
+  now: Date,
+  timeZone: string | undefined,
+): { userQuests: UserQuests; rotated: boolean } {
+  const today = toLocalDay(now, timeZone);
+  const dailyKey = getPeriodStartDay('daily', today);
+  const weeklyKey = getPeriodStartDay('weekly', today);
+
+  const dailyStale = existing?.daily?.periodKey !== dailyKey;
+  const weeklyStale = existing?.weekly?.periodKey !== weeklyKey;
+
+  if (existing && !dailyStale && !weeklyStale) {
+    return { userQuests: existing, rotated: false };
+  }
+
+  return {
+    userQuests: {
+      userId,
+      daily:
+        existing && !dailyStale ? existing.daily : createQuestSet(userId, 'daily', today, timeZone),
+      weekly:
+        existing && !weeklyStale
+          ? existing.weekly
+          : createQuestSet(userId, 'weekly', today, timeZone),
+      updatedAt: Timestamp.now(),
+    },
+    rotated: true,
+  };
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Gets what an activity adds to a quest
+ * @returns The contribution, or null when the quest doesn't count the activity
+ */
+function getContribution(quest: QuestProgress, activity: StravaActivity): QuestContribution | null {
+  const definition = QUEST_DEFINITIONS.find((d) => d.id === quest.questId);
+
+  if (
+    !definition ||
+    (definition.activityTypes &&
+      !definition.activityTypes.includes(activity.sport_type) &&
+      !definition.activityTypes.includes(activity.type))
+  ) {
+    return null;
+  }
+
+  switch (quest.metric) {
+    case 'distance':
+      return { activityId: activity.id, amount: activity.distance };
+    case 'moving_time':
+      return { activityId: activity.id, amount: activity.moving_time };
+    case 'elevation':
+      return { activityId: activity.id, amount: activity.total_elevation_gain };
+    case 'activity_count':
+      return { activityId: activity.id, amount: 1 };
+    case 'distinct_sport_types':
+      return {
+        activityId: activity.id,
+        amount: 1,
+        sportType: activity.sport_type || activity.type,
+      };
+  }
+}
+
+/**
+ * Rebuilds a quest's progress from the activities counted towards it
+ */
+function withContributions(
+  quest: QuestProgress,
+  contributions: QuestContribution[],
+): QuestProgress {
+  let progress: number;
+  let sportTypes: string[] | undefined;
+
+  if (quest.metric === 'distinct_sport_types') {
+    sportTypes = Array.from(new Set(contributions.map((c) => c.sportType ?? '')));
+    progress = sportTypes.length;
+  } else {
+    progress = contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+  }
+
+  return {
+    ...quest,
+    progress: Math.min(progress, quest.target),
+    completed: progress >= quest.target,
+    contributions,
+    ...(sportTypes && { sportTypes }),
+  };
+}
+
+/**
+ * Replaces an activity's contributions to a quest set
+ * The activity only counts if it falls within the set's period; old activities
+ * (e.g. from a history import) don't count towards current quests
+ * @param activityId - ID of the activity that was stored, updated or removed
+ * @param activity - The activity as it now counts, or null when it no longer counts
+ * @param timeZone - Athlete's IANA timezone, for the activity's period
+ * @returns The updated set, the quests it completed and the quests that are no longer completed
+ */
+export function reviseQuestSet(
+  questSet: QuestSet,
+  period: QuestPeriod,
+  activityId: number,
+  activity: StravaActivity | null,
+): { questSet: QuestSet; completed: QuestProgress[]; reversed: QuestProgress[] } {
+  const counts =
+    !!activity && getPeriodStartDay(period, getActivityLocalDay(activity)) === questSet.periodKey;
+
+  const quests = questSet.quests.map((quest) => {
+    const contributions = (quest.contributions ?? []).filter((c) => c.activityId !== activityId);
+    const contribution = counts ? getContribution(quest, activity) : null;
+    const revised = withContributions(
+      quest,
+      contribution ? [...contributions, contribution] : contributions,
+    );
+
+    if (revised.completed && !quest.completed) {
+      return { ...revised, completedBy: activityId };
+    }
+    if (!revised.completed && quest.completed) {
+      const { completedBy: _completedBy, ...uncompleted } = revised;
+      return uncompleted;
+    }
+    return revised;
+  });
+
+  return {
+    questSet: { ...questSet, quests },
+    completed: quests.filter((quest, i) => quest.completed && !questSet.quests[i].completed),
+    reversed: questSet.quests.filter((quest, i) => quest.completed && !quests[i].completed),
+  };
+}
+
+/**
+ * Re-evaluates quest progress after an activity was stored, updated or removed
+ * Quest rewards are ledger entries keyed by the activity that completed the quest,
+ * written in the same transaction as the progress update. A quest that is no longer
+ * completed takes its reward back; an activity that no longer counts gives back the
+ * rewards it earned in past periods too, which can't be re-evaluated
+ * @param userId - Firebase user ID
+ * @param activityId - ID of the activity that changed
+ * @param activity - The activity as it now counts, or null when it was deleted or no longer counts
+ */
+export async function reviseQuestProgress(
+  userId: string,
+  activityId: number,
+  activity: StravaActivity | null,
+): Promise<void> {
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  const questsRef = db.collection(FIRESTORE_COLLECTIONS.USER_QUESTS).doc(userId);
+
+  const { completed, reversed } = await db.runTransaction(async (transaction) => {
+    const [userDoc, questsDoc] = await transaction.getAll(userRef, questsRef);
+
+    if (!userDoc.exists) {
+      logger.error(`User ${userId} not found`);
+      return { completed: [], reversed: [] };
+    }
+
+    const currentGame =
+      (userDoc.data()?.game as GameProfile | undefined) ?? getInitialGameProfile();
+    const { userQuests } = ensureCurrentQuests(
+      userId,
+      questsDoc.data() as UserQuests | undefined,
+      new Date(),
+      currentGame.timezone,
+    );
+
+    // Rewards from past periods: all the activity's quest XP less what current quests hold
+    let pastRewardXP = 0;
+    if (!activity) {
+      const ledgerSnapshot = await transaction.get(
+        db
+          .collection(FIRESTORE_COLLECTIONS.XP_LEDGER)
+          .where('userId', '==', userId)
+          .where('activityId', '==', activityId)
+          .where('type', '==', 'quest'),
+      );
+      const heldXP = [...userQuests.daily.quests, ...userQuests.weekly.quests]
+        .filter((quest) => quest.completed && quest.completedBy === activityId)
+        .reduce((sum, quest) => sum + quest.xpReward, 0);
+      pastRewardXP =
+        ledgerSnapshot.docs.reduce((sum, doc) => sum + (doc.data() as XPLedgerEntry).amount, 0) -
+        heldXP;
+    }
+
+    const daily = reviseQuestSet(userQuests.daily, 'daily', activityId, activity);
+    const weekly = reviseQuestSet(userQuests.weekly, 'weekly', activityId, activity);
+    const newlyCompleted = [...daily.completed, ...weekly.completed];
+    const newlyReversed = [...daily.reversed, ...weekly.reversed];
+
+    transaction.set(questsRef, {
+      ...userQuests,
+      daily: daily.questSet,
+      weekly: weekly.questSet,
+      updatedAt: Timestamp.now(),
+    });
+
+    const entries = buildLedgerEntries(userId, currentGame.totalXP, [
+      ...newlyCompleted.map((quest) => ({
+        type: 'quest' as const,
+        amount: quest.xpReward,
+        description: `Quest completed: ${quest.title}`,
+        activityId,
+      })),
+      ...newlyReversed.map((quest) => ({
+        type: 'quest' as const,
+        amount: -quest.xpReward,
+        description: `Quest no longer completed: ${quest.title}`,
+        activityId: quest.completedBy ?? activityId,
+      })),
+      ...(pastRewardXP > 0
+        ? [
+            {
+              type: 'quest' as const,
+              amount: -pastRewardXP,
+              description: 'Quest rewards from a removed activity',
+              activityId,
+            },
+          ]
+        : []),
+    ]);
+
+    // Quest rewards are bonus XP, which recomputes keep
+    if (entries.length > 0) {
+      const rewardXP = entries.reduce((sum, entry) => sum + entry.amount, 0);
+      const updatedGame = addXPToGameProfile(
+        { ...currentGame, bonusXP: Math.max(0, (currentGame.bonusXP || 0) + rewardXP) },
+        rewardXP,
+      );
+
+      const ledgerFields = writeLedgerEntries(transaction, currentGame, entries);
+      transaction.update(userRef, {
+        game: { ...updatedGame, ...ledgerFields },
+        updatedAt: Timestamp.now(),
+      });
+    }
+
+    return { completed: newlyCompleted, reversed: newlyReversed };
+  });
+
+  if (completed.length > 0) {
+    logger.info(
+      `User ${userId} completed ${completed.length} quest(s): ` +
+        completed.map((quest) => quest.questId).join(', '),
+    );
+  }
+  if (reversed.length > 0) {
+    logger.info(
+      `User ${userId} no longer completes ${reversed.length} quest(s): ` +
+        reversed.map((quest) => quest.questId).join(', '),
+    );
+  }
+}
+
+/**
+ * Evaluates quest progress for a newly stored activity
+ * @param userId - Firebase user ID
+ * @param activity - Strava activity that was just stored
+ */
+export async function updateQuestProgress(userId: string, activity: StravaActivity): Promise<void> {
+  await reviseQuestProgress(userId, activity.id, activity);
+}
+
+// ============================================================================
+// EXPORTED CLOUD FUNCTIONS
+// ============================================================================
+
+/**
+ * Gets the current user's active daily and weekly quests
+ */
+export const getQuests = onCall(async (request): Promise<QuestsResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  parseData(emptyDataSchema, request.data);
+
+  const userId = request.auth.uid;
+
+  try {
+    const questsRef = db.collection(FIRESTORE_COLLECTIONS.USER_QUESTS).doc(userId);
+    const [userDoc, questsDoc] = await db.getAll(
+      db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId),
+      questsRef,
+    );
+
+    const { userQuests, rotated } = ensureCurrentQuests(
+      userId,
+      questsDoc.data() as UserQuests | undefined,
+      new Date(),
+      (userDoc.data()?.game as GameProfile | undefined)?.timezone,
+    );
+
+    if (rotated) {
+      await questsRef.set(userQuests);
+    }
+
+    return {
+      status: 'success',
+      daily: userQuests.daily,
+      weekly: userQuests.weekly,
+    };
+  } catch (error) {
+    handleError(error, 'Error getting quests:', 'Failed to get quests.');
+  }
+});
+
+/**
+ * Rotates daily (and on Mondays, weekly) quests for all Strava-connected users
+ * Runs hourly, so each user's quests rotate soon after their local midnight;
+ * users missed here are rotated lazily on their next read
+ */
+export const rotateQuests = onSchedule({ schedule: '5 * * * *', timeZone: 'UTC' }, async () => {
+  const now = new Date();
+  let lastUserId: string | undefined;
+  let rotatedCount = 0;
+
+  while (true) {
+    let query = db
+      .collection(FIRESTORE_COLLECTIONS.USERS)
+      .where('stravaConnected', '==', true)
+      .orderBy(FieldPath.documentId())
+      .limit(ROTATION_PAGE_SIZE);
+    if (lastUserId) {
+      query = query.startAfter(lastUserId);
+    }
+
+    const usersSnapshot = await query.get();
+    if (usersSnapshot.empty) {
+      break;
+    }
+
+    const questRefs = usersSnapshot.docs.map((doc) =>
+      db.collection(FIRESTORE_COLLECTIONS.USER_QUESTS).doc(doc.id),
+    );
+    const questDocs = await db.getAll(...questRefs);
+
+    const batch = db.batch();
+    questDocs.forEach((questsDoc, i) => {
+      const userId = usersSnapshot.docs[i].id;
+      const { userQuests, rotated } = ensureCurrentQuests(
+        userId,
+        questsDoc.data() as UserQuests | undefined,
+        now,
+        (usersSnapshot.docs[i].data().game as GameProfile | undefined)?.timezone,
+      );
+      if (rotated) {
+        batch.set(questRefs[i], userQuests);
+        rotatedCount++;
+      }
+    });
+    await batch.commit();
+
+    lastUserId = usersSnapshot.docs[usersSnapshot.docs.length - 1].id;
+    if (usersSnapshot.size < ROTATION_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  logger.info(`Rotated quests for ${rotatedCount} users`);
+});
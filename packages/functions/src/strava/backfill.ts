@@ -0,0 +1,408 @@
+import { emptyDataSchema } from '@endu/shared/schemas';
+import {
+  StravaActivity,
+  StravaBackfill,
+  StravaBackfillProgress,
+  StravaBackfillResponse,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
+import axios from 'axios';
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS, STRAVA_CONFIG } from '../config';
+import { recomputeUserGameState } from '../game/recompute';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { isStravaRateLimited, stravaClient } from './client';
+import { getValidStravaToken, processAndStoreActivity } from './strava';
+
+// Strava's largest page size for /athlete/activities
+const BACKFILL_PAGE_SIZE = 200;
+
+// Jobs looked at per run, least recently advanced first
+const JOBS_PER_RUN = 20;
+
+// Strava pages fetched per run; the client also holds bulk requests back near the rate limits
+const PAGES_PER_RUN = 30;
+
+// Pages fetched per job per run, so one long history doesn't hold up the others
+const PAGES_PER_JOB = 5;
+
+// Time a run may spend before it stops starting new pages
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+
+// How long a run holds a job before another run may take it over
+const LEASE_MS = 10 * 60 * 1000;
+
+// Consecutive failed runs before a job stops retrying
+const MAX_FAILURES = 5;
+
+function backfillRef(userId: string) {
+  return db.collection(FIRESTORE_COLLECTIONS.STRAVA_BACKFILLS).doc(userId);
+}
+
+function toUnixSeconds(isoDate: string): number {
+  return Math.floor(new Date(isoDate).getTime() / 1000);
+}
+
+/**
+ * Estimates how much of the athlete's history a backfill has walked, by time span
+ */
+function estimateProgress(job: StravaBackfill): number {
+  if (job.status === 'completed') {
+    return 1;
+  }
+  if (!job.oldestActivityDate) {
+    return 0;
+  }
+
+  const oldest = toUnixSeconds(job.oldestActivityDate);
+  const span = job.before - oldest;
+  return span > 0 ? Math.min(1, Math.max(0, (job.after - oldest) / span)) : 0;
+}
+
+/**
+ * Converts a backfill job to the progress shown to its user
+ */
+function toBackfillProgress(job: StravaBackfill): StravaBackfillProgress {
+  return {
+    status: job.status,
+    activitiesFetched: job.activitiesFetched,
+    activitiesStored: job.activitiesStored,
+    progress: estimateProgress(job),
+    ...(job.lastActivityDate && { lastActivityDate: job.lastActivityDate }),
+    ...(job.error && { error: job.error }),
+  };
+}
+
+/**
+ * Starts a user's history backfill, or resumes one that failed
+ * Reads the job, so it must run before any writes in the transaction
+ * @param transaction - Transaction the job is written in
+ * @param userId - Firebase user ID
+ * @param resumeCompleted - Whether a completed backfill walks again from its cursor to now
+ * @returns The job as it stands after the transaction
+ */
+export async function queueStravaBackfill(
+  transaction: Transaction,
+  userId: string,
+  resumeCompleted: boolean,
+): Promise<StravaBackfill> {
+  const ref = backfillRef(userId);
+  const current = (await transaction.get(ref)).data() as StravaBackfill | undefined;
+  const nowInSeconds = Math.floor(Date.now() / 1000);
+
+  if (!current) {
+    const job: StravaBackfill = {
+      userId,
+      status: 'pending',
+      before: nowInSeconds,
+      after: 0,
+      pagesFetched: 0,
+      activitiesFetched: 0,
+      activitiesStored: 0,
+      failures: 0,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    };
+    transaction.set(ref, job);
+    logger.info(`Queued Strava backfill for user ${userId}`);
+    return job;
+  }
+
+  const resume = current.status === 'failed' || (resumeCompleted && current.status === 'completed');
+  if (!resume) {
+    return current;
+  }
+
+  // Resuming keeps the cursor; a completed job walks on to activities since it finished
+  const { error: _error, completedAt: _completedAt, ...rest } = current;
+  const job: StravaBackfill = {
+    ...rest,
+    status: 'pending',
+    before: current.status === 'completed' ? nowInSeconds : current.before,
+    failures: 0,
+    updatedAt: Timestamp.now(),
+  };
+  transaction.set(ref, job);
+  logger.info(`Resumed ${current.status} Strava backfill for user ${userId}`);
+  return job;
+}
+
+/**
+ * Checks whether a run may take a job
+ * A run that died mid-job leaves it running until its lease expires
+ */
+function isRunnable(job: StravaBackfill, now: Date): boolean {
+  if (job.status === 'pending') {
+    return true;
+  }
+  return (
+    job.status === 'running' &&
+    (!job.leaseExpiresAt || toDate(job.leaseExpiresAt).getTime() <= now.getTime())
+  );
+}
+
+/**
+ * Takes a job for this run, so overlapping runs never walk the same history
+ * @returns The job, or null when it is not runnable
+ */
+async function claimBackfill(userId: string): Promise<StravaBackfill | null> {
+  const ref = backfillRef(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const job = (await transaction.get(ref)).data() as StravaBackfill | undefined;
+    if (!job || !isRunnable(job, new Date())) {
+      return null;
+    }
+
+    transaction.update(ref, {
+      status: 'running',
+      leaseExpiresAt: Timestamp.fromMillis(Date.now() + LEASE_MS),
+      updatedAt: Timestamp.now(),
+    });
+    return job;
+  });
+}
+
+/**
+ * Fetches the oldest page of activities in the (after, before) window
+ */
+async function fetchBackfillPage(
+  accessToken: string,
+  after: number,
+  before: number,
+): Promise<StravaActivity[]> {
+  const response = await stravaClient.request<StravaActivity[]>({
+    method: 'get',
+    url: `${STRAVA_CONFIG.API_BASE_URL}/athlete/activities`,
+    priority: 'bulk',
+    accessToken,
+    params: {
+      after,
+      before,
+      per_page: BACKFILL_PAGE_SIZE,
+    },
+  });
+
+  // Strava lists activities oldest first when `after` is set
+  // Sort anyway, so the cursor only ever moves forward
+  return [...response.data].sort(
+    (a, b) => toUnixSeconds(a.start_date) - toUnixSeconds(b.start_date) || a.id - b.id,
+  );
+}
+
+/**
+ * Advances one user's backfill by up to maxPages pages, saving the cursor after each
+ * Activities are stored oldest first, so streaks and daily XP see days in order
+ * @param userId - Firebase user ID
+ * @param maxPages - Pages this job may fetch in this run
+ * @param deadline - Time (ms since epoch) after which no new page is started
+ * @returns The number of Strava pages fetched
+ * @throws HttpsError resource-exhausted when Strava's rate limits leave no room for bulk work
+ */
+async function advanceBackfill(
+  userId: string,
+  maxPages: number,
+  deadline: number,
+): Promise<number> {
+  const job = await claimBackfill(userId);
+  if (!job) {
+    return 0;
+  }
+
+  const ref = backfillRef(userId);
+  let { after, oldestActivityDate } = job;
+  let storedCount = job.activitiesStored;
+  let pages = 0;
+
+  try {
+    const accessToken = await getValidStravaToken(userId);
+
+    while (pages < maxPages && Date.now() < deadline) {
+      const activities = await fetchBackfillPage(accessToken, after, job.before);
+      pages++;
+
+      let stored = 0;
+      for (const activity of activities) {
+        if (await processAndStoreActivity(userId, activity)) {
+          stored++;
+        }
+      }
+      storedCount += stored;
+
+      const newest = activities[activities.length - 1];
+      if (newest) {
+        // Strava's `after` is exclusive, so step back a second to pick up activities starting in
+        // the same second as the newest one; the ones already stored are skipped. Always move
+        // forward, so a page of activities within one second can't be fetched forever
+        after = Math.max(toUnixSeconds(newest.start_date) - 1, after + 1);
+        oldestActivityDate ??= activities[0].start_date;
+      }
+      const done = activities.length < BACKFILL_PAGE_SIZE;
+
+      await ref.update({
+        status: done ? 'completed' : 'running',
+        after,
+        ...(oldestActivityDate && { oldestActivityDate }),
+        ...(newest && { lastActivityDate: newest.start_date }),
+        pagesFetched: FieldValue.increment(1),
+        activitiesFetched: FieldValue.increment(activities.length),
+        activitiesStored: FieldValue.increment(stored),
+        failures: 0,
+        error: FieldValue.delete(),
+        leaseExpiresAt: done ? FieldValue.delete() : Timestamp.fromMillis(Date.now() + LEASE_MS),
+        updatedAt: Timestamp.now(),
+        ...(done && { completedAt: Timestamp.now() }),
+      });
+
+      if (done) {
+        logger.info(
+          `Completed Strava backfill for user ${userId}: ${storedCount} activities stored`,
+        );
+
+        // Older activities stored after newer ones can leave streaks and daily XP out of
+        // order, so settle the profile with a deterministic replay
+        if (storedCount > 0) {
+          await recomputeUserGameState(userId);
+        }
+        return pages;
+      }
+    }
+
+    // Out of budget for this run; the next run picks up from the saved cursor
+    await ref.update({
+      status: 'pending',
+      leaseExpiresAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+    return pages;
+  } catch (error) {
+    // Rate limits are not the job's fault; hand it back untouched and stop the run
+    if (isStravaRateLimited(error)) {
+      await ref.update({
+        status: 'pending',
+        leaseExpiresAt: FieldValue.delete(),
+        updatedAt: Timestamp.now(),
+      });
+      throw error;
+    }
+
+    const failures = (pages > 0 ? 0 : job.failures) + 1;
+    // HttpsErrors from getValidStravaToken mean the user must reconnect Strava
+    const unauthorized = axios.isAxiosError(error) && error.response?.status === 401;
+    const failed = error instanceof HttpsError || unauthorized || failures >= MAX_FAILURES;
+
+    logger.error(`Strava backfill for user ${userId} failed (attempt ${failures}):`, error);
+    await ref.update({
+      status: failed ? 'failed' : 'pending',
+      failures,
+      error: error instanceof Error ? error.message : String(error),
+      leaseExpiresAt: FieldValue.delete(),
+      updatedAt: Timestamp.now(),
+    });
+    return pages;
+  }
+}
+
+/**
+ * Advances queued Strava history backfills a few pages at a time
+ * Runs every 15 minutes, matching Strava's short-term rate limit window
+ */
+export const runStravaBackfills = onSchedule(
+  { schedule: '*/15 * * * *', timeZone: 'UTC', timeoutSeconds: 540 },
+  async () => {
+    const deadline = Date.now() + RUN_BUDGET_MS;
+
+    const jobsSnapshot = await db
+      .collection(FIRESTORE_COLLECTIONS.STRAVA_BACKFILLS)
+      .where('status', 'in', ['pending', 'running'])
+      .orderBy('updatedAt')
+      .limit(JOBS_PER_RUN)
+      .get();
+
+    let pagesLeft = PAGES_PER_RUN;
+    for (const jobDoc of jobsSnapshot.docs) {
+      if (pagesLeft <= 0 || Date.now() >= deadline) {
+        break;
+      }
+      try {
+        pagesLeft -= await advanceBackfill(jobDoc.id, Math.min(PAGES_PER_JOB, pagesLeft), deadline);
+      } catch (error) {
+        if (!isStravaRateLimited(error)) {
+          throw error;
+        }
+        logger.info('Strava rate limits reached, leaving the remaining backfills to the next run');
+        break;
+      }
+    }
+
+    logger.info(
+      `Advanced Strava backfills: ${PAGES_PER_RUN - pagesLeft} pages across ` +
+        `${jobsSnapshot.size} queued jobs`,
+    );
+  },
+);
+
+/**
+ * Gets the progress of the current user's Strava history backfill
+ */
+export const getStravaBackfill = onCall(async (request): Promise<StravaBackfillResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  parseData(emptyDataSchema, request.data);
+
+  const userId = request.auth.uid;
+
+  try {
+    const jobDoc = await backfillRef(userId).get();
+
+    return {
+      status: 'success',
+      backfill: jobDoc.exists ? toBackfillProgress(jobDoc.data() as StravaBackfill) : null,
+    };
+  } catch (error) {
+    handleError(error, 'Error getting Strava backfill:', 'Failed to get Strava backfill.');
+  }
+});
+
+/**
+ * Starts a backfill of the current user's full Strava history
+ * Resumes a failed backfill, or catches a completed one up to now
+ */
+export const startStravaBackfill = onCall(async (request): Promise<StravaBackfillResponse> => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'User must be authenticated.');
+  }
+
+  parseData(emptyDataSchema, request.data);
+
+  const userId = request.auth.uid;
+
+  try {
+    const tokenDoc = await db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(userId).get();
+    if (!tokenDoc.exists) {
+      throw new HttpsError(
+        'failed-precondition',
+        'Strava not connected. Please connect your Strava account first.',
+      );
+    }
+
+    const job = await db.runTransaction((transaction) =>
+      queueStravaBackfill(transaction, userId, true),
+    );
+
+    return {
+      status: 'success',
+      backfill: toBackfillProgress(job),
+    };
+  } catch (error) {
+    handleError(error, 'Error starting Strava backfill:', 'Failed to start Strava backfill.');
+  }
+});
@@ -0,0 +1,237 @@
+import { StravaRateLimitUsage } from '@endu/shared/types';
+import axios, { AxiosInstance, AxiosResponse, HttpStatusCode, Method } from 'axios';
+import { Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError } from 'firebase-functions/v2/https';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS, STRAVA_RATE_LIMIT_CONFIG } from '../config';
+
+// Strava resets the short-term limit every 15 minutes on the clock, the daily one at midnight UTC
+const SHORT_TERM_WINDOW_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Who a Strava request is for; lower priorities give way as the rate limits fill up
+ * - webhook: keeping stored activities in step with Strava
+ * - interactive: a user waiting on a callable
+ * - bulk: background work such as history backfills
+ */
+export type StravaRequestPriority = keyof typeof STRAVA_RATE_LIMIT_CONFIG.PRIORITY_SHARE;
+
+export interface StravaRequest {
+  method: Method;
+  url: string;
+  priority: StravaRequestPriority;
+  accessToken?: string; // Sent as a bearer token
+  params?: Record<string, unknown>;
+}
+
+export type RateLimitReading = Omit<StravaRateLimitUsage, 'updatedAt'>;
+
+// Where usage is shared between function instances
+export interface RateLimitStore {
+  read(): Promise<RateLimitReading | null>;
+  write(reading: RateLimitReading): Promise<void>;
+}
+
+export interface StravaClientOptions {
+  store: RateLimitStore;
+  http?: AxiosInstance;
+  now?: () => number; // Milliseconds since epoch
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface StravaClient {
+  request<T>(request: StravaRequest): Promise<AxiosResponse<T>>;
+}
+
+function getWindowStart(nowMs: number): number {
+  return Math.floor(nowMs / SHORT_TERM_WINDOW_MS) * SHORT_TERM_WINDOW_MS;
+}
+
+function getDayKey(nowMs: number): string {
+  return new Date(nowMs).toISOString().slice(0, 10);
+}
+
+/**
+ * Reads Strava's rate limit headers, e.g. X-RateLimit-Limit: "200,2000"
+ * @returns The reported usage, or null when the response carries no rate limit headers
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, unknown>,
+  nowMs: number,
+): RateLimitReading | null {
+  const limit = headers['x-ratelimit-limit'];
+  const usage = headers['x-ratelimit-usage'];
+  if (typeof limit !== 'string' || typeof usage !== 'string') {
+    return null;
+  }
+
+  const [shortTermLimit, dailyLimit] = limit.split(',').map(Number);
+  const [shortTermUsage, dailyUsage] = usage.split(',').map(Number);
+  if (![shortTermLimit, dailyLimit, shortTermUsage, dailyUsage].every(Number.isFinite)) {
+    return null;
+  }
+
+  return {
+    shortTermLimit,
+    shortTermUsage,
+    dailyLimit,
+    dailyUsage,
+    windowStart: Math.floor(getWindowStart(nowMs) / 1000),
+    day: getDayKey(nowMs),
+  };
+}
+
+/**
+ * Finds when a request at this priority may next be sent
+ * Usage reported in an earlier window or day has since reset
+ * @returns Milliseconds since epoch, or null when the request may be sent now
+ */
+export function getRateLimitedUntil(
+  reading: RateLimitReading | null,
+  priority: StravaRequestPriority,
+  nowMs: number,
+): number | null {
+  if (!reading) {
+    return null;
+  }
+
+  const share = STRAVA_RATE_LIMIT_CONFIG.PRIORITY_SHARE[priority];
+  const windowStart = getWindowStart(nowMs);
+
+  if (reading.day === getDayKey(nowMs) && reading.dailyUsage >= reading.dailyLimit * share) {
+    return Math.floor(nowMs / DAY_MS) * DAY_MS + DAY_MS;
+  }
+  if (
+    reading.windowStart * 1000 === windowStart &&
+    reading.shortTermUsage >= reading.shortTermLimit * share
+  ) {
+    return windowStart + SHORT_TERM_WINDOW_MS;
+  }
+  return null;
+}
+
+function rateLimitedError(untilMs: number): HttpsError {
+  return new HttpsError(
+    'resource-exhausted',
+    'Strava rate limit reached. Please try again later.',
+    {
+      retryAt: new Date(untilMs).toISOString(),
+    },
+  );
+}
+
+/**
+ * Checks whether an error is a Strava rate limit that lifts on its own
+ */
+export function isStravaRateLimited(error: unknown): error is HttpsError {
+  return error instanceof HttpsError && error.code === 'resource-exhausted';
+}
+
+/**
+ * Creates a Strava HTTP client that shares rate limit usage through the store
+ * Requests over their priority's share of a limit fail with a 'resource-exhausted'
+ * HttpsError without being sent; 5xx and network errors are retried with backoff
+ */
+export function createStravaClient({
+  store,
+  http = axios,
+  now = Date.now,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+}: StravaClientOptions): StravaClient {
+  async function record(headers: Record<string, unknown>): Promise<RateLimitReading | null> {
+    const reading = parseRateLimitHeaders(headers, now());
+    if (reading) {
+      // Usage tracking must never fail the request itself
+      await store.write(reading).catch((error) => {
+        logger.warn('Failed to record Strava rate limit usage:', error);
+      });
+    }
+    return reading;
+  }
+
+  async function request<T>({
+    method,
+    url,
+    priority,
+    accessToken,
+    params,
+  }: StravaRequest): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const limitedUntil = getRateLimitedUntil(await store.read(), priority, now());
+      if (limitedUntil !== null) {
+        logger.warn(`Strava ${priority} request to ${url} held back by rate limits`);
+        throw rateLimitedError(limitedUntil);
+      }
+
+      try {
+        const response = await http.request<T>({
+          method,
+          url,
+          params,
+          ...(accessToken && { headers: { Authorization: `Bearer ${accessToken}` } }),
+        });
+        await record(response.headers);
+        return response;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        const reading = error.response ? await record(error.response.headers) : null;
+
+        if (status === HttpStatusCode.TooManyRequests) {
+          // Wait out a window that is about to reset, unless this is bulk work
+          const untilMs =
+            getRateLimitedUntil(reading, 'webhook', now()) ??
+            getWindowStart(now()) + SHORT_TERM_WINDOW_MS;
+          const waitMs = untilMs - now();
+          if (
+            priority === 'bulk' ||
+            attempt >= STRAVA_RATE_LIMIT_CONFIG.MAX_RETRIES ||
+            waitMs > STRAVA_RATE_LIMIT_CONFIG.MAX_RATE_LIMIT_WAIT_MS
+          ) {
+            throw rateLimitedError(untilMs);
+          }
+          logger.warn(`Strava rate limit hit, retrying in ${waitMs}ms`);
+          await sleep(waitMs);
+          continue;
+        }
+
+        const retryable = status === undefined || status >= HttpStatusCode.InternalServerError;
+        if (!retryable || attempt >= STRAVA_RATE_LIMIT_CONFIG.MAX_RETRIES) {
+          throw error;
+        }
+
+        const delayMs = STRAVA_RATE_LIMIT_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt;
+        logger.warn(
+          `Strava request to ${url} failed (${status ?? error.code}), retrying in ${delayMs}ms`,
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  return { request };
+}
+
+/**
+ * Keeps the last reported usage in one Firestore document shared by all instances
+ * Strava reports totals, so the latest reading replaces the stored one
+ */
+export const firestoreRateLimitStore: RateLimitStore = {
+  async read() {
+    const usageDoc = await db.collection(FIRESTORE_COLLECTIONS.STRAVA_API).doc('rateLimit').get();
+    return (usageDoc.data() as StravaRateLimitUsage | undefined) ?? null;
+  },
+  async write(reading) {
+    const usage: StravaRateLimitUsage = { ...reading, updatedAt: Timestamp.now() };
+    await db.collection(FIRESTORE_COLLECTIONS.STRAVA_API).doc('rateLimit').set(usage);
+  },
+};
+
+// The client every Strava call goes through
+export const stravaClient = createStravaClient({ store: firestoreRateLimitStore });
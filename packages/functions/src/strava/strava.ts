@@ -1,33 +1,53 @@
-import axios from 'axios';
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
-import * as logger from 'firebase-functions/logger';
-import { HttpsError, onCall } from 'firebase-functions/v2/https';
-
-import { db } from '../admin';
-import { FIRESTORE_COLLECTIONS, getStravaCredentials, STRAVA_CONFIG } from '../config';
-import { calculateXP, updateGameProfile } from '../game/game';
-import { handleError } from '../handleError';
 import {
-  ExchangeCodeData,
+  emptyDataSchema,
+  exchangeCodeDataSchema,
+  getActivitiesDataSchema,
+  syncActivitiesDataSchema,
+} from '@endu/shared/schemas';
+import {
   ExchangeCodeResponse,
-  GetActivitiesData,
   GetActivitiesResponse,
   GetActivityByIdData,
   GetActivityByIdResponse,
   StoredActivity,
   StravaActivity,
+  StravaDisconnectReason,
   StravaRefreshTokenResponse,
   StravaTokenExchangeResponse,
   StravaTokens,
   SuccessResponse,
+  SyncActivitiesResponse,
+  UserProfile,
   UserStats,
-} from '../types';
+} from '@endu/shared/types';
+import axios, { HttpStatusCode } from 'axios';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+
+import { evaluateAchievements } from '../achievements/achievements';
+import { db } from '../admin';
+import {
+  buildActivityReview,
+  findOverlappingActivities,
+  runAntiCheat,
+} from '../anticheat/anticheat';
+import { findDuplicatedActivity } from '../anticheat/duplicates';
+import { FIRESTORE_COLLECTIONS, getStravaCredentials, STRAVA_CONFIG } from '../config';
+import { awardActivityXP, getAthleteProfile } from '../game/game';
+import { GAME_CONFIG } from '../game/game.config';
+import { loadXPRules } from '../game/rules';
+import { handleError } from '../handleError';
+import { parseData } from '../parseData';
+import { updateQuestProgress } from '../quests/quests';
+import { queueStravaBackfill } from './backfill';
+import { stravaClient } from './client';
 
 /**
  * Gets valid Strava access token for user, automatically refreshing if expired
  * @param userId - Firebase user ID
  * @returns Valid access token
- * @throws HttpsError if tokens not found or refresh fails
+ * @throws HttpsError if tokens not found or Strava refuses the refresh
  */
 export async function getValidStravaToken(userId: string): Promise<string> {
   const tokenDoc = await db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(userId).get();
@@ -56,7 +76,10 @@ export async function getValidStravaToken(userId: string): Promise<string> {
     };
 
     try {
-      const response = await axios.post<StravaRefreshTokenResponse>(STRAVA_CONFIG.TOKEN_URL, null, {
+      const response = await stravaClient.request<StravaRefreshTokenResponse>({
+        method: 'post',
+        url: STRAVA_CONFIG.TOKEN_URL,
+        priority: 'interactive',
         params,
       });
 
@@ -74,6 +97,15 @@ export async function getValidStravaToken(userId: string): Promise<string> {
 
       return updatedTokens.accessToken;
     } catch (error) {
+      // Only a refresh Strava refused needs the user to reconnect; rate limits and outages
+      // lift on their own
+      const refused =
+        axios.isAxiosError(error) &&
+        error.response !== undefined &&
+        error.response.status < HttpStatusCode.InternalServerError;
+      if (!refused) {
+        throw error;
+      }
       logger.error('Error auto-refreshing token:', error);
       throw new HttpsError(
         'failed-precondition',
@@ -86,45 +118,33 @@ export async function getValidStravaToken(userId: string): Promise<string> {
 }
 
 /**
- * Updates user's cumulative statistics based on activity data
- * @param userId - Firebase user ID
- * @param activity - Strava activity to add to stats
+ * Applies an activity to cumulative statistics
+ * @param currentStats - Statistics before the change
+ * @param activity - Strava activity to add to or remove from stats
  * @param increment - Whether to increment (true) or decrement (false) stats
  */
-export async function updateUserStats(
-  userId: string,
+export function applyActivityToStats(
+  currentStats: UserStats | undefined,
   activity: StravaActivity,
-  increment: boolean = true,
-): Promise<void> {
-  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
-  const userDoc = await userRef.get();
-
-  if (!userDoc.exists) {
-    throw new HttpsError('not-found', 'User profile not found');
-  }
-
-  const currentStats = userDoc.data()?.stats as UserStats | undefined;
+  increment: boolean,
+): UserStats {
   const multiplier = increment ? 1 : -1;
+  const cyclingDistance = GAME_CONFIG.CYCLING_TYPES.includes(activity.type) ? activity.distance : 0;
 
-  const updatedStats: UserStats = {
+  return {
     totalDistance: (currentStats?.totalDistance || 0) + activity.distance * multiplier,
     totalMovingTime: (currentStats?.totalMovingTime || 0) + activity.moving_time * multiplier,
     totalElevationGain:
       (currentStats?.totalElevationGain || 0) + activity.total_elevation_gain * multiplier,
     activitiesCount: (currentStats?.activitiesCount || 0) + 1 * multiplier,
+    // Stats from before it was tracked leave it missing until it is derived in full
+    ...((!currentStats || currentStats.cyclingDistance !== undefined) && {
+      cyclingDistance: (currentStats?.cyclingDistance || 0) + cyclingDistance * multiplier,
+    }),
     lastActivityDate: increment
       ? Timestamp.fromDate(new Date(activity.start_date))
       : currentStats?.lastActivityDate,
   };
-
-  await userRef.update({
-    stats: updatedStats,
-    updatedAt: Timestamp.now(),
-  });
-
-  logger.info(
-    `Updated stats for user ${userId}: ${increment ? 'added' : 'removed'} activity ${activity.id}`,
-  );
 }
 
 /**
@@ -164,23 +184,76 @@ export async function processAndStoreActivity(
     .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
     .doc(`${userId}_${activity.id}`);
 
+  const rules = await loadXPRules();
+
   // Use a transaction to prevent race conditions from duplicate webhook events
-  const isNew = await db.runTransaction(async (transaction) => {
-    const existingActivity = await transaction.get(activityRef);
+  const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+  const xpResult = await db.runTransaction(async (transaction) => {
+    const [existingActivity, userDoc] = await transaction.getAll(activityRef, userRef);
 
     if (existingActivity.exists) {
       logger.info(`Activity ${activity.id} already exists for user ${userId}, skipping storage`);
-      return false;
+      return null;
+    }
+
+    // Plausibility and duplicate checks read the overlapping activities in the transaction,
+    // so two recordings of one workout stored at the same moment can't both count
+    const overlapping = await findOverlappingActivities(userId, activity, transaction);
+    const antiCheat = runAntiCheat(userId, activity, overlapping, rules.manualPolicy);
+    const withheld = antiCheat.status === 'pending_review';
+    const duplicateOf = findDuplicatedActivity(activity, overlapping)?.id;
+
+    // Hold the activity for review, or keep it as a duplicate, without awarding XP
+    if (withheld || duplicateOf !== undefined) {
+      const heldActivity: StoredActivity = {
+        ...activity,
+        xpEarned: 0,
+        antiCheat,
+        ...(duplicateOf !== undefined && { duplicateOf }),
+        userId,
+        fetchedAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+
+      transaction.set(activityRef, heldActivity);
+      if (withheld) {
+        transaction.set(
+          db.collection(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS).doc(`${userId}_${activity.id}`),
+          buildActivityReview(userId, heldActivity),
+        );
+      }
+      logger.info(
+        `Stored activity ${activity.id} for user ${userId}, ` +
+          (withheld ? 'held for review' : `duplicate of ${duplicateOf}`),
+      );
+
+      return undefined;
     }
 
-    // Process game logic (XP, quests, streaks)
-    const xpResult = await calculateXP(userId, activity);
-    await updateGameProfile(userId, activity, xpResult);
+    if (!userDoc.exists) {
+      throw new HttpsError('not-found', 'User profile not found');
+    }
+
+    // Award XP, streak and stats in the same transaction, so a retry can't count them twice
+    const userData = userDoc.data() as UserProfile;
+    const xpResult = awardActivityXP(
+      transaction,
+      userId,
+      userData.game,
+      activity,
+      rules,
+      getAthleteProfile(userData),
+    );
+    transaction.update(userRef, {
+      stats: applyActivityToStats(userData.stats, activity, true),
+    });
 
     // Store activity in Firestore with XP earned
     const storedActivity: StoredActivity = {
       ...activity,
       xpEarned: xpResult.totalXP,
+      xpBreakdown: xpResult,
+      antiCheat,
       userId,
       fetchedAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
@@ -189,12 +262,20 @@ export async function processAndStoreActivity(
     transaction.set(activityRef, storedActivity);
     logger.info(`Stored activity ${activity.id} for user ${userId} with ${xpResult.totalXP} XP`);
 
-    return true;
+    return xpResult;
   });
 
-  if (isNew) {
-    // Update user's cumulative statistics (outside transaction — separate document)
-    await updateUserStats(userId, activity, true);
+  const isNew = xpResult !== null;
+
+  // Held activities count towards stats, quests and achievements only once approved,
+  // duplicates only once the user picks them
+  if (xpResult) {
+    // Advance quests (activities that earned no XP don't count)
+    if (xpResult.totalXP > 0) {
+      await updateQuestProgress(userId, activity);
+    }
+
+    await evaluateAchievements(userId, activity);
   }
 
   return isNew;
@@ -230,17 +311,15 @@ export async function fetchStravaActivity(
   const accessToken = await getValidStravaToken(userId);
 
   // Fetch activity from Strava API
-  const response = await axios.get<StravaActivity>(
-    `${STRAVA_CONFIG.API_BASE_URL}/activities/${activityId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-      params: {
-        include_all_efforts: false,
-      },
+  const response = await stravaClient.request<StravaActivity>({
+    method: 'get',
+    url: `${STRAVA_CONFIG.API_BASE_URL}/activities/${activityId}`,
+    priority: 'webhook',
+    accessToken,
+    params: {
+      include_all_efforts: false,
     },
-  );
+  });
 
   const activity = response.data;
   logger.info(`Fetched activity ${activityId} for user ${userId}`);
@@ -263,12 +342,7 @@ export const exchangeCodeForToken = onCall(async (request): Promise<ExchangeCode
   }
 
   const userId = request.auth.uid;
-  const { code } = request.data as ExchangeCodeData;
-
-  if (!code || typeof code !== 'string') {
-    logger.error('Invalid code passed to function');
-    throw new HttpsError('invalid-argument', "A valid 'code' must be provided.");
-  }
+  const { code } = parseData(exchangeCodeDataSchema, request.data);
 
   logger.info(`User ${userId} exchanging code for token: ${code.substring(0, 5)}...`);
 
@@ -283,7 +357,10 @@ export const exchangeCodeForToken = onCall(async (request): Promise<ExchangeCode
       grant_type: 'authorization_code',
     };
 
-    const response = await axios.post<StravaTokenExchangeResponse>(STRAVA_CONFIG.TOKEN_URL, null, {
+    const response = await stravaClient.request<StravaTokenExchangeResponse>({
+      method: 'post',
+      url: STRAVA_CONFIG.TOKEN_URL,
+      priority: 'interactive',
       params,
     });
 
@@ -301,6 +378,12 @@ export const exchangeCodeForToken = onCall(async (request): Promise<ExchangeCode
     await db.runTransaction(async (transaction) => {
       const tokenRef = db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(userId);
       const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+      const userDoc = await transaction.get(userRef);
+
+      // Import the athlete's full history in the background on first connect, or resume an
+      // import that failed; after a disconnect, also catch up on activities missed meanwhile
+      const disconnected = (userDoc.data() as UserProfile | undefined)?.stravaDisconnectReason;
+      await queueStravaBackfill(transaction, userId, disconnected !== undefined);
 
       // Store tokens
       transaction.set(tokenRef, stravaTokens);
@@ -313,6 +396,8 @@ export const exchangeCodeForToken = onCall(async (request): Promise<ExchangeCode
           stravaConnected: true,
           stravaFirstname: tokenData.athlete.firstname,
           stravaLastname: tokenData.athlete.lastname,
+          stravaDisconnectReason: FieldValue.delete(),
+          stravaDisconnectedAt: FieldValue.delete(),
           updatedAt: Timestamp.now(),
         },
         { merge: true },
@@ -338,16 +423,42 @@ export const exchangeCodeForToken = onCall(async (request): Promise<ExchangeCode
   }
 });
 
+/**
+ * Removes a user's Strava tokens and marks their profile as disconnected
+ * Shared by disconnectStrava and the athlete deauthorization webhook
+ * @param userId - Firebase user ID
+ * @param reason - Why the account was disconnected, shown to the user until they reconnect
+ */
+export async function removeStravaConnection(
+  userId: string,
+  reason: StravaDisconnectReason,
+): Promise<void> {
+  const batch = db.batch();
+  batch.delete(db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(userId));
+  batch.update(db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId), {
+    stravaConnected: false,
+    stravaFirstname: FieldValue.delete(),
+    stravaLastname: FieldValue.delete(),
+    stravaId: FieldValue.delete(),
+    stravaDisconnectReason: reason,
+    stravaDisconnectedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  await batch.commit();
+}
+
 /**
  * Disconnects Strava account from user profile
  * Revokes access tokens with Strava and removes tokens from Firestore
- * Can be triggered by user action or webhook (when user revokes via Strava settings)
+ * Revocations made from Strava's settings arrive by webhook instead (see handleAthleteUpdate)
  */
 export const disconnectStrava = onCall(async (request): Promise<SuccessResponse> => {
   if (!request.auth) {
     throw new HttpsError('unauthenticated', 'User must be authenticated.');
   }
 
+  parseData(emptyDataSchema, request.data);
+
   const userId = request.auth.uid;
 
   try {
@@ -355,7 +466,10 @@ export const disconnectStrava = onCall(async (request): Promise<SuccessResponse>
 
     // Revoke access with Strava API
     try {
-      await axios.post(STRAVA_CONFIG.DEAUTHORIZE_URL, null, {
+      await stravaClient.request({
+        method: 'post',
+        url: STRAVA_CONFIG.DEAUTHORIZE_URL,
+        priority: 'interactive',
         params: {
           access_token: accessToken,
         },
@@ -366,17 +480,7 @@ export const disconnectStrava = onCall(async (request): Promise<SuccessResponse>
       logger.warn(`Failed to revoke Strava token via API for user ${userId}:`, error);
     }
 
-    // Delete tokens from Firestore
-    await db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(userId).delete();
-
-    // Update user profile
-    await db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId).update({
-      stravaConnected: false,
-      stravaFirstname: FieldValue.delete(),
-      stravaLastname: FieldValue.delete(),
-      stravaId: FieldValue.delete(),
-      updatedAt: Timestamp.now(),
-    });
+    await removeStravaConnection(userId, 'user');
 
     logger.info(`Strava disconnected for user: ${userId}`);
 
@@ -394,38 +498,37 @@ export const disconnectStrava = onCall(async (request): Promise<SuccessResponse>
  * Checks for duplicates to avoid storing the same activity multiple times
  * Used for development/testing - production will use webhooks with fetchActivityById
  */
-export const fetchStravaActivities = onCall(async (request): Promise<GetActivitiesResponse> => {
+export const fetchStravaActivities = onCall(async (request): Promise<SyncActivitiesResponse> => {
   if (!request.auth) {
     throw new HttpsError('unauthenticated', 'User must be authenticated.');
   }
 
   const userId = request.auth.uid;
-  const { page = 1, perPage = 30 } = request.data as GetActivitiesData;
+  const { page = 1, perPage = 30 } = parseData(syncActivitiesDataSchema, request.data);
 
   try {
     // Get valid access token (auto-refreshes if expired)
     const accessToken = await getValidStravaToken(userId);
 
     // Make API request to Strava
-    const response = await axios.get<StravaActivity[]>(
-      `${STRAVA_CONFIG.API_BASE_URL}/athlete/activities`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-        params: {
-          page,
-          per_page: perPage,
-        },
+    const response = await stravaClient.request<StravaActivity[]>({
+      method: 'get',
+      url: `${STRAVA_CONFIG.API_BASE_URL}/athlete/activities`,
+      priority: 'interactive',
+      accessToken,
+      params: {
+        page,
+        per_page: perPage,
       },
-    );
+    });
 
     const activities = response.data;
     logger.info(`Retrieved ${activities.length} activities for user: ${userId}`);
 
     // Process and store each activity (with duplicate checking)
+    // Strava returns newest first; process oldest first so streaks see dates in order
     let newActivitiesCount = 0;
-    for (const activity of activities) {
+    for (const activity of [...activities].reverse()) {
       const wasStored = await processAndStoreActivity(userId, activity);
       if (wasStored) {
         newActivitiesCount++;
@@ -458,9 +561,38 @@ export const fetchStravaActivities = onCall(async (request): Promise<GetActiviti
   }
 });
 
+/**
+ * Encodes the position after an activity as an opaque page cursor
+ */
+function encodeActivitiesCursor(activity: StravaActivity): string {
+  return Buffer.from(JSON.stringify([activity.start_date, activity.id])).toString('base64url');
+}
+
+/**
+ * Decodes a page cursor into the start date and ID of the last activity returned
+ * @throws HttpsError invalid-argument when the cursor was not issued by encodeActivitiesCursor
+ */
+function decodeActivitiesCursor(cursor: string): [string, number] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'string' &&
+      Number.isSafeInteger(decoded[1])
+    ) {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // Fall through to the invalid-argument error below
+  }
+  throw new HttpsError('invalid-argument', 'cursor is invalid.');
+}
+
 /**
  * Gets user's stored activities from Firestore
- * Returns activities sorted by start date (most recent first)
+ * Returns activities sorted by start date (most recent first), a page at a time
+ * Pass the returned nextCursor back to get the following page
  */
 export const getUserActivities = onCall(async (request): Promise<GetActivitiesResponse> => {
   if (!request.auth) {
@@ -468,34 +600,39 @@ export const getUserActivities = onCall(async (request): Promise<GetActivitiesRe
   }
 
   const userId = request.auth.uid;
-  const { page = 1, perPage = 30 } = request.data as GetActivitiesData;
+  const { cursor, perPage = 30 } = parseData(getActivitiesDataSchema, request.data);
+  const startAfter = cursor ? decodeActivitiesCursor(cursor) : null;
 
   try {
-    // Calculate offset for pagination
-    const offset = (page - 1) * perPage;
-
-    // Query Firestore for user's activities
-    const activitiesSnapshot = await db
+    // Order by ID too, so activities starting at the same time page deterministically
+    let query = db
       .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
       .where('userId', '==', userId)
       .orderBy('start_date', 'desc')
-      .limit(perPage)
-      .offset(offset)
-      .get();
+      .orderBy('id', 'desc');
+    if (startAfter) {
+      query = query.startAfter(...startAfter);
+    }
+
+    // Read one extra activity to know whether another page follows
+    const activitiesSnapshot = await query.limit(perPage + 1).get();
 
     const activities: StravaActivity[] = [];
-    activitiesSnapshot.forEach((doc) => {
+    activitiesSnapshot.docs.slice(0, perPage).forEach((doc) => {
       const data = doc.data() as StoredActivity;
       // Remove userId and Firestore-specific fields
       const { userId: _userId, fetchedAt: _fetchedAt, updatedAt: _updatedAt, ...activity } = data;
       activities.push(activity);
     });
 
+    const hasMore = activitiesSnapshot.size > perPage;
+
     logger.info(`Retrieved ${activities.length} activities from Firestore for user: ${userId}`);
 
     return {
       status: 'success',
       activities: activities,
+      nextCursor: hasMore ? encodeActivitiesCursor(activities[activities.length - 1]) : null,
     };
   } catch (error) {
     handleError(
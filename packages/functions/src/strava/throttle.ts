@@ -0,0 +1,81 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+import { db } from '../admin';
+import { FIRESTORE_COLLECTIONS } from '../config';
+
+// Where request counts are kept, per key and fixed window
+export interface ThrottleStore {
+  // Counts one more request and returns the window's count so far
+  increment(key: string, windowStart: number, windowMs: number): Promise<number>;
+}
+
+export interface ThrottleOptions {
+  store: ThrottleStore;
+  limit: number; // Requests allowed per key in each window
+  windowMs: number;
+  now?: () => number; // Milliseconds since epoch
+}
+
+export interface Throttle {
+  // Counts a request, returning false once its key is over the limit for the window
+  take(key: string): Promise<boolean>;
+}
+
+/**
+ * Creates a fixed-window throttle over the store
+ */
+export function createThrottle({
+  store,
+  limit,
+  windowMs,
+  now = Date.now,
+}: ThrottleOptions): Throttle {
+  return {
+    async take(key) {
+      const windowStart = Math.floor(now() / windowMs) * windowMs;
+      return (await store.increment(key, windowStart, windowMs)) <= limit;
+    },
+  };
+}
+
+/**
+ * Counts in this instance's memory: costs nothing per request, but every instance counts
+ * on its own. Only the current window is kept
+ */
+export function createMemoryThrottleStore(): ThrottleStore {
+  const counts = new Map<string, number>();
+  let currentWindowStart = 0;
+
+  return {
+    async increment(key, windowStart) {
+      if (windowStart !== currentWindowStart) {
+        counts.clear();
+        currentWindowStart = windowStart;
+      }
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      return count;
+    },
+  };
+}
+
+/**
+ * Counts in Firestore, shared by all instances, with one document per key and window
+ * A TTL policy deletes each document once its window has passed
+ */
+export const firestoreThrottleStore: ThrottleStore = {
+  async increment(key, windowStart, windowMs) {
+    const counterRef = db
+      .collection(FIRESTORE_COLLECTIONS.REQUEST_THROTTLES)
+      .doc(`${key}_${windowStart}`);
+
+    return db.runTransaction(async (transaction) => {
+      const count = ((await transaction.get(counterRef)).data()?.count ?? 0) + 1;
+      transaction.set(counterRef, {
+        count,
+        expireAt: Timestamp.fromMillis(windowStart + windowMs),
+      });
+      return count;
+    });
+  },
+};
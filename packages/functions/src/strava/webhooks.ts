@@ -1,17 +1,94 @@
+import { stravaWebhookEventSchema } from '@endu/shared/schemas';
+import {
+  GameProfile,
+  StoredActivity,
+  StoredWebhookEvent,
+  StravaActivity,
+  StravaWebhookEvent,
+  StravaWebhookSubscription,
+  StravaWebhookUpdates,
+  UserProfile,
+  UserStats,
+} from '@endu/shared/types';
+import { toDate } from '@endu/shared/utils';
 import axios, { HttpStatusCode } from 'axios';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
 import * as logger from 'firebase-functions/logger';
-import { onRequest } from 'firebase-functions/v2/https';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { HttpsError, onRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
 
 import { db } from '../admin';
+import { isWithheld } from '../anticheat/anticheat';
+import {
+  findDuplicatesOf,
+  isCounted,
+  promoteDuplicate,
+  transferCountedActivity,
+} from '../anticheat/duplicates';
 import { FIRESTORE_COLLECTIONS, getStravaCredentials, STRAVA_CONFIG } from '../config';
+import { getAthleteProfile, reviseActivityXP } from '../game/game';
+import { loadXPRules } from '../game/rules';
 import { handleError } from '../handleError';
-import { StravaActivity, StravaWebhookEvent, StravaWebhookUpdates } from '../types';
+import { reviseQuestProgress, updateQuestProgress } from '../quests/quests';
+import { isStravaRateLimited, stravaClient } from './client';
 import {
+  applyActivityToStats,
   fetchStravaActivity,
   getUserIdByStravaId,
   getValidStravaToken,
-  updateUserStats,
+  removeStravaConnection,
 } from './strava';
+import { createMemoryThrottleStore, createThrottle, firestoreThrottleStore } from './throttle';
+
+// Attempts before an event is moved to the dead-letter state
+const MAX_EVENT_ATTEMPTS = 8;
+
+// Delay before the first retry, doubled on each further failure up to the max
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// How long a worker holds an event before another may take it over
+const EVENT_LEASE_MS = 5 * 60 * 1000;
+
+// Due events retried per scheduled run
+const RETRY_BATCH_SIZE = 50;
+
+// Processed events are kept this long to drop redelivered duplicates
+const PROCESSED_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Strava delivers events within seconds and stops retrying well within an hour,
+// so older events are replays; newer ones are allowed a few minutes of clock skew
+const MAX_EVENT_AGE_MS = 60 * 60 * 1000;
+const MAX_EVENT_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Webhook requests allowed per minute; all real events come from a few Strava addresses,
+// so the per-IP limit only stops floods
+const WEBHOOK_THROTTLE_WINDOW_MS = 60 * 1000;
+const MAX_REQUESTS_PER_IP = 600;
+const MAX_EVENTS_PER_OWNER = 60;
+
+// How long an instance reuses the stored subscription ID
+const SUBSCRIPTION_CACHE_MS = 5 * 60 * 1000;
+
+// gRPC status code Firestore fails create() with when the document already exists
+const ALREADY_EXISTS = 6;
+
+// Per instance, so floods are turned away without a Firestore write each
+const ipThrottle = createThrottle({
+  store: createMemoryThrottleStore(),
+  limit: MAX_REQUESTS_PER_IP,
+  windowMs: WEBHOOK_THROTTLE_WINDOW_MS,
+});
+
+// Shared, but only counts events for connected athletes that passed every other check
+const ownerThrottle = createThrottle({
+  store: firestoreThrottleStore,
+  limit: MAX_EVENTS_PER_OWNER,
+  windowMs: WEBHOOK_THROTTLE_WINDOW_MS,
+});
+
+let cachedSubscriptionId: { id: number | null; readAt: number } | null = null;
 
 /**
  * Webhook endpoint to handle Strava subscription validation and activity notifications
@@ -61,12 +138,119 @@ function handleSubscriptionValidation(request: any, response: any) {
   }
 }
 
+/**
+ * Stores the app's webhook subscription, so events can be checked against it
+ */
+async function storeWebhookSubscription(id: number, callbackUrl?: string): Promise<void> {
+  const subscription: StravaWebhookSubscription = {
+    id,
+    ...(callbackUrl && { callbackUrl }),
+    createdAt: Timestamp.now(),
+  };
+  await db
+    .collection(FIRESTORE_COLLECTIONS.STRAVA_API)
+    .doc('webhookSubscription')
+    .set(subscription);
+  cachedSubscriptionId = null;
+}
+
+/**
+ * Reads the app's webhook subscription ID, reused by each instance for a few minutes
+ * A subscription created before IDs were stored is looked up from Strava once and stored
+ * @returns The subscription ID, or null when the app has no subscription
+ */
+async function getWebhookSubscriptionId(): Promise<number | null> {
+  if (cachedSubscriptionId && Date.now() - cachedSubscriptionId.readAt < SUBSCRIPTION_CACHE_MS) {
+    return cachedSubscriptionId.id;
+  }
+
+  const subscriptionDoc = await db
+    .collection(FIRESTORE_COLLECTIONS.STRAVA_API)
+    .doc('webhookSubscription')
+    .get();
+  let id = (subscriptionDoc.data() as StravaWebhookSubscription | undefined)?.id ?? null;
+
+  if (id === null) {
+    const { clientId, clientSecret } = getStravaCredentials();
+    // Strava allows one subscription per app
+    const { data: subscriptions } = await stravaClient.request<{ id: number }[]>({
+      method: 'get',
+      url: STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL,
+      priority: 'webhook',
+      params: {
+        client_id: clientId,
+        client_secret: clientSecret,
+      },
+    });
+    if (subscriptions.length > 0) {
+      id = subscriptions[0].id;
+      await storeWebhookSubscription(id);
+      logger.info(`Stored existing webhook subscription ${id}`);
+    }
+  }
+
+  cachedSubscriptionId = { id, readAt: Date.now() };
+  return id;
+}
+
 /**
  * Handles incoming webhook notifications from Strava
- * Processes activity events (create, update, delete)
+ * The endpoint is public, so events are only stored when they are well-formed, sent to the
+ * app's subscription, recent, and within the per-IP and per-athlete throttles
  */
 async function handleWebhookNotification(request: any, response: any) {
-  const event: StravaWebhookEvent = request.body;
+  if (!(await ipThrottle.take(request.ip ?? 'unknown'))) {
+    logger.warn(`Webhook requests from ${request.ip} throttled`);
+    response.status(HttpStatusCode.TooManyRequests).send('TOO_MANY_REQUESTS');
+    return;
+  }
+
+  const result = stravaWebhookEventSchema.safeParse(request.body);
+  if (!result.success) {
+    logger.warn('Rejected malformed webhook event:', result.error.issues);
+    response.status(HttpStatusCode.BadRequest).send('INVALID_EVENT');
+    return;
+  }
+  const event: StravaWebhookEvent = result.data;
+
+  try {
+    const subscriptionId = await getWebhookSubscriptionId();
+    if (subscriptionId === null) {
+      logger.error('No Strava webhook subscription stored, rejecting event');
+    }
+    if (event.subscription_id !== subscriptionId) {
+      logger.warn(`Rejected webhook event for unknown subscription ${event.subscription_id}`);
+      response.status(HttpStatusCode.Forbidden).send('UNKNOWN_SUBSCRIPTION');
+      return;
+    }
+  } catch (error) {
+    logger.error('Error reading webhook subscription:', error);
+    response.status(HttpStatusCode.InternalServerError).send('EVENT_NOT_STORED');
+    return;
+  }
+
+  const eventAgeMs = Date.now() - event.event_time * 1000;
+  if (eventAgeMs > MAX_EVENT_AGE_MS || eventAgeMs < -MAX_EVENT_CLOCK_SKEW_MS) {
+    logger.warn(`Rejected webhook event with stale event_time ${event.event_time}`);
+    response.status(HttpStatusCode.BadRequest).send('STALE_EVENT');
+    return;
+  }
+
+  // Only athletes connected to the app have a budget, so forged events for made-up owners can't
+  // spend one; their events are dropped when processed. Counting must never drop a real event,
+  // so a failed count lets the event through
+  const isConnected = (await getUserIdByStravaId(event.owner_id)) !== null;
+  const allowed =
+    !isConnected ||
+    (await ownerThrottle.take(`owner_${event.owner_id}`).catch((error) => {
+      logger.warn('Failed to count webhook event for throttling:', error);
+      return true;
+    }));
+  if (!allowed) {
+    logger.warn(`Webhook events for Strava athlete ${event.owner_id} throttled`);
+    response.status(HttpStatusCode.TooManyRequests).send('TOO_MANY_REQUESTS');
+    return;
+  }
 
   logger.info('Received webhook event:', {
     object_type: event.object_type,
@@ -75,24 +259,170 @@ async function handleWebhookNotification(request: any, response: any) {
     owner_id: event.owner_id,
   });
 
-  // Respond immediately with 200 OK (within 2 seconds as required by Strava)
+  // The same event redelivered by Strava maps to the same document
+  const eventId = `${event.object_type}_${event.object_id}_${event.aspect_type}_${event.event_time}`;
+  const storedEvent: StoredWebhookEvent = {
+    event: {
+      object_id: event.object_id,
+      object_type: event.object_type,
+      aspect_type: event.aspect_type,
+      owner_id: event.owner_id,
+      event_time: event.event_time,
+      subscription_id: event.subscription_id,
+      ...(event.updates && { updates: event.updates }),
+    },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Timestamp.now(),
+    receivedAt: Timestamp.now(),
+  };
+
+  try {
+    await db.collection(FIRESTORE_COLLECTIONS.WEBHOOK_EVENTS).doc(eventId).create(storedEvent);
+  } catch (error) {
+    // A duplicate delivery, already queued
+    if ((error as { code?: number }).code !== ALREADY_EXISTS) {
+      logger.error('Error storing webhook event:', error);
+      // Strava retries events that aren't acknowledged with 200
+      response.status(HttpStatusCode.InternalServerError).send('EVENT_NOT_STORED');
+      return;
+    }
+    logger.info(`Webhook event ${eventId} already received, skipping duplicate`);
+  }
+
+  // Respond with 200 OK (within 2 seconds as required by Strava)
   response.status(HttpStatusCode.Ok).send('EVENT_RECEIVED');
+}
 
-  // Process asynchronously
-  processWebhookEvent(event).catch((error) => {
-    logger.error('Error processing webhook event:', error);
+/**
+ * Takes a stored event for this worker, so the trigger and retries never run it twice at once
+ * The attempt is counted here, so a worker that dies mid-event still uses one up
+ * @returns The event, or null when it is already processed, dead or held by another worker
+ */
+async function claimWebhookEvent(eventId: string): Promise<StoredWebhookEvent | null> {
+  const eventRef = db.collection(FIRESTORE_COLLECTIONS.WEBHOOK_EVENTS).doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const storedEvent = (await transaction.get(eventRef)).data() as StoredWebhookEvent | undefined;
+    if (
+      !storedEvent ||
+      (storedEvent.status !== 'pending' && storedEvent.status !== 'processing') ||
+      toDate(storedEvent.nextAttemptAt).getTime() > Date.now()
+    ) {
+      return null;
+    }
+
+    if (storedEvent.attempts >= MAX_EVENT_ATTEMPTS) {
+      logger.error(
+        `Webhook event ${eventId} failed ${storedEvent.attempts} times, moving to dead letters`,
+      );
+      transaction.update(eventRef, { status: 'dead_letter' });
+      return null;
+    }
+
+    const attempts = storedEvent.attempts + 1;
+    transaction.update(eventRef, {
+      status: 'processing',
+      attempts,
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + EVENT_LEASE_MS),
+    });
+    return { ...storedEvent, attempts };
   });
 }
 
 /**
- * Asynchronously processes webhook events
- * Separated from handleWebhookNotification to allow immediate 200 OK response
+ * Processes a stored event and records the outcome
+ * Failures are retried with exponential backoff, then moved to the dead-letter state
+ */
+async function runWebhookEvent(eventId: string): Promise<void> {
+  const storedEvent = await claimWebhookEvent(eventId);
+  if (!storedEvent) {
+    return;
+  }
+
+  const eventRef = db.collection(FIRESTORE_COLLECTIONS.WEBHOOK_EVENTS).doc(eventId);
+
+  try {
+    await processWebhookEvent(storedEvent.event);
+
+    await eventRef.update({
+      status: 'processed',
+      processedAt: Timestamp.now(),
+      expireAt: Timestamp.fromMillis(Date.now() + PROCESSED_EVENT_RETENTION_MS),
+    });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    // Rate limits are not the event's fault; retry once they lift without using an attempt
+    if (isStravaRateLimited(error)) {
+      const retryAt = (error.details as { retryAt?: string } | undefined)?.retryAt;
+      await eventRef.update({
+        status: 'pending',
+        attempts: storedEvent.attempts - 1,
+        nextAttemptAt: retryAt ? Timestamp.fromDate(new Date(retryAt)) : Timestamp.now(),
+        lastError,
+      });
+      return;
+    }
+
+    const { attempts } = storedEvent;
+    if (attempts >= MAX_EVENT_ATTEMPTS) {
+      logger.error(`Webhook event ${eventId} failed ${attempts} times, moving to dead letters`);
+      await eventRef.update({ status: 'dead_letter', lastError });
+      return;
+    }
+
+    const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    await eventRef.update({
+      status: 'pending',
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + delayMs),
+      lastError,
+    });
+  }
+}
+
+/**
+ * Processes each webhook event as soon as it is stored
+ */
+export const processStravaWebhookEvent = onDocumentCreated(
+  `${FIRESTORE_COLLECTIONS.WEBHOOK_EVENTS}/{eventId}`,
+  async (event) => {
+    await runWebhookEvent(event.params.eventId);
+  },
+);
+
+/**
+ * Retries webhook events that failed, or whose worker stopped before finishing
+ * Runs every 5 minutes
+ */
+export const retryStravaWebhookEvents = onSchedule(
+  { schedule: '*/5 * * * *', timeZone: 'UTC' },
+  async () => {
+    const dueSnapshot = await db
+      .collection(FIRESTORE_COLLECTIONS.WEBHOOK_EVENTS)
+      .where('status', 'in', ['pending', 'processing'])
+      .where('nextAttemptAt', '<=', Timestamp.now())
+      .orderBy('nextAttemptAt')
+      .limit(RETRY_BATCH_SIZE)
+      .get();
+
+    for (const eventDoc of dueSnapshot.docs) {
+      await runWebhookEvent(eventDoc.id);
+    }
+
+    logger.info(`Retried ${dueSnapshot.size} webhook events`);
+  },
+);
+
+/**
+ * Processes a webhook event
+ * Throws when the event should be retried
  */
 async function processWebhookEvent(event: StravaWebhookEvent) {
   try {
-    // Only process activity events
-    if (event.object_type !== 'activity') {
-      logger.info('Ignoring non-activity event');
+    // Only process activity and athlete events
+    if (event.object_type !== 'activity' && event.object_type !== 'athlete') {
+      logger.info(`Ignoring ${event.object_type} event`);
       return;
     }
 
@@ -103,6 +433,11 @@ async function processWebhookEvent(event: StravaWebhookEvent) {
       return;
     }
 
+    if (event.object_type === 'athlete') {
+      await handleAthleteUpdate(userId, event.updates);
+      return;
+    }
+
     // Process based on event type
     switch (event.aspect_type) {
       case 'create':
@@ -130,9 +465,100 @@ async function processWebhookEvent(event: StravaWebhookEvent) {
   }
 }
 
+/**
+ * Checks with Strava that the athlete revoked the app's access: their token is refused
+ * The webhook endpoint is public, so a deauthorization event alone is not trusted
+ * @throws When Strava can't answer, so the event is retried
+ */
+async function isStravaAccessRevoked(userId: string): Promise<boolean> {
+  let accessToken: string;
+  try {
+    accessToken = await getValidStravaToken(userId);
+  } catch (error) {
+    // Strava refused to refresh the token
+    if (error instanceof HttpsError && error.code === 'failed-precondition') {
+      return true;
+    }
+    throw error;
+  }
+
+  try {
+    await stravaClient.request({
+      method: 'get',
+      url: `${STRAVA_CONFIG.API_BASE_URL}/athlete`,
+      priority: 'webhook',
+      accessToken,
+    });
+    return false;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === HttpStatusCode.Unauthorized) {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks with Strava that an activity is gone before a delete event removes its XP
+ * @throws When Strava can't answer, so the event is retried
+ */
+async function isStravaActivityDeleted(userId: string, activityId: number): Promise<boolean> {
+  const accessToken = await getValidStravaToken(userId);
+
+  try {
+    await stravaClient.request({
+      method: 'get',
+      url: `${STRAVA_CONFIG.API_BASE_URL}/activities/${activityId}`,
+      priority: 'webhook',
+      accessToken,
+    });
+    return false;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === HttpStatusCode.NotFound) {
+      return true;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether Strava answered that an activity doesn't exist or isn't visible to the app
+ * (deleted, made private, or a made-up ID), which retrying the event can't change
+ */
+function isActivityUnavailable(error: unknown): boolean {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === HttpStatusCode.NotFound || status === HttpStatusCode.Forbidden;
+}
+
+/**
+ * Handles athlete updates
+ * Strava sends one with authorized "false" when the athlete revokes access from its settings;
+ * the connection is removed once Strava confirms the app's token no longer works
+ */
+async function handleAthleteUpdate(userId: string, updates?: StravaWebhookUpdates) {
+  if (updates?.authorized !== 'false') {
+    logger.info(`Ignoring athlete update for user ${userId}`, { updates });
+    return;
+  }
+
+  try {
+    if (!(await isStravaAccessRevoked(userId))) {
+      logger.warn(`Ignoring deauthorization for user ${userId}: Strava still accepts the token`);
+      return;
+    }
+
+    await removeStravaConnection(userId, 'revoked');
+    logger.info(`✅ Strava access revoked by athlete for user ${userId}`);
+  } catch (error) {
+    logger.error(`Error handling athlete deauthorization:`, error);
+    throw error;
+  }
+}
+
 /**
  * Handles new activity creation
  * Fetches the activity from Strava and stores it
+ * Events for activities Strava no longer shows are dropped rather than retried
  */
 async function handleActivityCreate(userId: string, activityId: number) {
   logger.info(`Processing new activity ${activityId} for user ${userId}`);
@@ -151,13 +577,18 @@ async function handleActivityCreate(userId: string, activityId: number) {
     await fetchStravaActivity(userId, activityId);
     logger.info(`✅ Successfully stored activity ${activityId}`);
   } catch (error) {
+    if (isActivityUnavailable(error)) {
+      logger.warn(`Activity ${activityId} is not available on Strava, skipping create event`);
+      return;
+    }
     logger.error(`Error handling activity create:`, error);
+    throw error;
   }
 }
 
 /**
  * Handles activity updates
- * Fetches updated activity data and updates in Firestore
+ * Fetches updated activity data, re-prices its XP and updates stats in one transaction
  */
 async function handleActivityUpdate(
   userId: string,
@@ -172,6 +603,7 @@ async function handleActivityUpdate(
     const activityRef = db
       .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
       .doc(`${userId}_${activityId}`);
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
 
     const existingActivity = await activityRef.get();
 
@@ -182,64 +614,212 @@ async function handleActivityUpdate(
 
     // Get fresh data from Strava
     const accessToken = await getValidStravaToken(userId);
-    const response = await axios.get<StravaActivity>(
-      `${STRAVA_CONFIG.API_BASE_URL}/activities/${activityId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      },
-    );
+    const response = await stravaClient.request<StravaActivity>({
+      method: 'get',
+      url: `${STRAVA_CONFIG.API_BASE_URL}/activities/${activityId}`,
+      priority: 'webhook',
+      accessToken,
+    });
 
     const updatedActivity = response.data;
-    const oldActivity = existingActivity.data() as StravaActivity;
-
-    // Update stats (remove old, add new)
-    await updateUserStats(userId, oldActivity, false);
-    await updateUserStats(userId, updatedActivity, true);
-
-    // Update activity in Firestore
-    await activityRef.update({
-      ...updatedActivity,
-      updatedAt: new Date(),
+    const rules = await loadXPRules();
+
+    // XP the updated activity earns, or undefined when it doesn't count
+    const earnedXP = await db.runTransaction(async (transaction) => {
+      const [activityDoc, userDoc] = await transaction.getAll(activityRef, userRef);
+
+      if (!activityDoc.exists || !userDoc.exists) {
+        logger.warn(`Activity ${activityId} or its user disappeared before update`);
+        return undefined;
+      }
+
+      const oldActivity = activityDoc.data() as StoredActivity;
+      const userData = userDoc.data();
+
+      // Held and duplicate activities earn no XP or stats; only refresh the data
+      if (!isCounted(oldActivity)) {
+        transaction.update(activityRef, {
+          ...updatedActivity,
+          updatedAt: Timestamp.now(),
+        });
+        return undefined;
+      }
+
+      // Reverse the original XP and re-price the updated activity
+      const xpResult = reviseActivityXP(
+        transaction,
+        userId,
+        userData?.game as GameProfile | undefined,
+        oldActivity,
+        updatedActivity,
+        rules,
+        getAthleteProfile(userData as UserProfile),
+      );
+
+      // Update stats (remove old, add new)
+      const stats = applyActivityToStats(
+        applyActivityToStats(userData?.stats as UserStats | undefined, oldActivity, false),
+        updatedActivity,
+        true,
+      );
+      transaction.update(userRef, { stats });
+
+      // Update activity in Firestore
+      transaction.update(activityRef, {
+        ...updatedActivity,
+        xpEarned: xpResult?.totalXP ?? 0,
+        xpBreakdown: xpResult,
+        updatedAt: Timestamp.now(),
+      });
+
+      return xpResult?.totalXP ?? 0;
     });
 
+    // Re-evaluate quests, e.g. for a changed type or distance (activities that earn no XP don't count)
+    if (earnedXP !== undefined) {
+      await reviseQuestProgress(userId, activityId, earnedXP > 0 ? updatedActivity : null);
+    }
+
     logger.info(`✅ Successfully updated activity ${activityId}`);
   } catch (error) {
+    if (isActivityUnavailable(error)) {
+      logger.warn(`Activity ${activityId} is not available on Strava, skipping update event`);
+      return;
+    }
     logger.error(`Error handling activity update:`, error);
+    throw error;
   }
 }
 
 /**
  * Handles activity deletion
- * Removes activity from Firestore and updates user stats
+ * Removes activity from Firestore, reverses its XP and updates user stats in one transaction
+ * If the activity had duplicates, the first one counts in its place
+ * Only activities Strava confirms are gone are removed
  */
 async function handleActivityDelete(userId: string, activityId: number) {
   logger.info(`Processing activity delete ${activityId} for user ${userId}`);
 
   try {
+    if (!(await isStravaActivityDeleted(userId, activityId))) {
+      logger.warn(`Ignoring delete of activity ${activityId}: it still exists on Strava`);
+      return;
+    }
+
     const activityRef = db
       .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
       .doc(`${userId}_${activityId}`);
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+    const rules = await loadXPRules();
+    const duplicates = (await findDuplicatesOf(userId, activityId)).sort((a, b) => a.id - b.id);
+    const replacement = duplicates.find((duplicate) => !isWithheld(duplicate));
+    const siblings = duplicates.filter((duplicate) => duplicate !== replacement);
+
+    // Whether the deleted activity counted, so its quest progress must be undone
+    const deleted = await db.runTransaction(async (transaction) => {
+      const refs = [activityRef, userRef];
+      if (replacement) {
+        refs.push(
+          db.collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES).doc(`${userId}_${replacement.id}`),
+        );
+      }
+      const [activityDoc, userDoc, replacementDoc] = await transaction.getAll(...refs);
+
+      if (!activityDoc.exists) {
+        logger.warn(`Activity ${activityId} not found for deletion`);
+        return null;
+      }
+
+      const activity = activityDoc.data() as StoredActivity;
+      const counted = isCounted(activity);
+      let countedReplacement: StoredActivity | undefined;
+
+      // Withheld and duplicate activities never added XP or stats, so there is nothing to reverse,
+      // but an activity awaiting review can still have duplicates that now count instead
+      if (userDoc.exists && activity.duplicateOf === undefined) {
+        const userData = userDoc.data();
+
+        if (replacement && replacementDoc?.exists) {
+          // Hand the XP and stats over to a duplicate of the deleted activity
+          const replacementActivity = replacementDoc.data() as StoredActivity;
+          const replacementXP = counted
+            ? transferCountedActivity(
+                transaction,
+                userId,
+                userData as UserProfile,
+                activity,
+                replacementActivity,
+                siblings,
+                rules,
+              )
+            : promoteDuplicate(
+                transaction,
+                userId,
+                userData as UserProfile,
+                replacementActivity,
+                siblings,
+                rules,
+              );
+          if ((replacementXP?.totalXP ?? 0) > 0) {
+            countedReplacement = replacementActivity;
+          }
+          logger.info(`Duplicate activity ${replacement.id} now counts in place of ${activityId}`);
+        } else {
+          if (counted) {
+            // Reverse the XP the activity was awarded
+            reviseActivityXP(
+              transaction,
+              userId,
+              userData?.game as GameProfile | undefined,
+              activity,
+              null,
+              rules,
+              getAthleteProfile(userData as UserProfile),
+            );
+
+            // Update user stats (decrement)
+            transaction.update(userRef, {
+              stats: applyActivityToStats(
+                userData?.stats as UserStats | undefined,
+                activity,
+                false,
+              ),
+            });
+          }
+
+          // Any remaining duplicates are held by anti-cheat and now stand on their own
+          for (const duplicate of siblings) {
+            transaction.update(
+              db
+                .collection(FIRESTORE_COLLECTIONS.STRAVA_ACTIVITIES)
+                .doc(`${userId}_${duplicate.id}`),
+              { duplicateOf: FieldValue.delete(), updatedAt: Timestamp.now() },
+            );
+          }
+        }
+      }
+
+      // Delete activity and any pending review
+      transaction.delete(activityRef);
+      transaction.delete(
+        db.collection(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS).doc(`${userId}_${activityId}`),
+      );
+      return { counted, countedReplacement };
+    });
 
-    const existingActivity = await activityRef.get();
-
-    if (!existingActivity.exists) {
-      logger.warn(`Activity ${activityId} not found for deletion`);
-      return;
+    if (deleted) {
+      // Take back quest progress and rewards; a duplicate counting in its place earns them anew
+      if (deleted.counted) {
+        await reviseQuestProgress(userId, activityId, null);
+      }
+      if (deleted.countedReplacement) {
+        await updateQuestProgress(userId, deleted.countedReplacement);
+      }
+      logger.info(`✅ Successfully deleted activity ${activityId}`);
     }
-
-    const activity = existingActivity.data() as StravaActivity;
-
-    // Update user stats (decrement)
-    await updateUserStats(userId, activity, false);
-
-    // Delete activity
-    await activityRef.delete();
-
-    logger.info(`✅ Successfully deleted activity ${activityId}`);
   } catch (error) {
     logger.error(`Error handling activity delete:`, error);
+    throw error;
   }
 }
 
@@ -247,12 +827,16 @@ async function handleActivityDelete(userId: string, activityId: number) {
  * Creates a webhook subscription with Strava
  * Call this function to set up the webhook
  * Use ngrok URL as callback_url for local development
+ * The subscription ID is stored; stravaWebhook rejects events sent to any other subscription
  */
 export const createStravaWebhook = async (callbackUrl: string) => {
   const { clientId, clientSecret } = getStravaCredentials();
 
   try {
-    const response = await axios.post(STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL, null, {
+    const response = await stravaClient.request<{ id: number }>({
+      method: 'post',
+      url: STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL,
+      priority: 'interactive',
       params: {
         client_id: clientId,
         client_secret: clientSecret,
@@ -261,6 +845,8 @@ export const createStravaWebhook = async (callbackUrl: string) => {
       },
     });
 
+    await storeWebhookSubscription(response.data.id, callbackUrl);
+
     logger.info('✅ Webhook subscription created:', response.data);
     return response.data;
   } catch (error) {
@@ -275,7 +861,10 @@ export const viewStravaWebhooks = async () => {
   const { clientId, clientSecret } = getStravaCredentials();
 
   try {
-    const response = await axios.get(STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL, {
+    const response = await stravaClient.request({
+      method: 'get',
+      url: STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL,
+      priority: 'interactive',
       params: {
         client_id: clientId,
         client_secret: clientSecret,
@@ -296,13 +885,25 @@ export const deleteStravaWebhook = async (subscriptionId: number) => {
   const { clientId, clientSecret } = getStravaCredentials();
 
   try {
-    await axios.delete(`${STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL}/${subscriptionId}`, {
+    await stravaClient.request({
+      method: 'delete',
+      url: `${STRAVA_CONFIG.PUSH_SUBSCRIPTION_URL}/${subscriptionId}`,
+      priority: 'interactive',
       params: {
         client_id: clientId,
         client_secret: clientSecret,
       },
     });
 
+    const subscriptionRef = db
+      .collection(FIRESTORE_COLLECTIONS.STRAVA_API)
+      .doc('webhookSubscription');
+    const subscriptionDoc = await subscriptionRef.get();
+    if ((subscriptionDoc.data() as StravaWebhookSubscription | undefined)?.id === subscriptionId) {
+      await subscriptionRef.delete();
+      cachedSubscriptionId = null;
+    }
+
     logger.info(`✅ Webhook subscription ${subscriptionId} deleted`);
     return { success: true };
   } catch (error) {
@@ -1,4 +0,0 @@
-export * from './user.types';
-export * from './strava.types';
-export * from './game.types';
-export * from './common.types';
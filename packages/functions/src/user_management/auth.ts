@@ -1,34 +1,47 @@
+import { signUpOrLogInDataSchema } from '@endu/shared/schemas';
+import { UserProfile } from '@endu/shared/types';
 import { UserRecord } from 'firebase-admin/auth';
 import { Timestamp } from 'firebase-admin/firestore';
 import * as logger from 'firebase-functions/logger';
 import * as functionsV1 from 'firebase-functions/v1';
-import { CallableRequest, HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onCall } from 'firebase-functions/v2/https';
 
 import { auth, db } from '../admin';
 import { FIRESTORE_COLLECTIONS } from '../config';
 import { handleError } from '../handleError';
-import { SignUpOrLogInData, UserProfile } from '../types/user.types';
+import { parseData } from '../parseData';
+
+// Firestore allows 500 writes per batch
+const DELETE_BATCH_SIZE = 400;
+
+/**
+ * Deletes every document in a collection that belongs to a user, a batch at a time
+ */
+async function deleteUserDocuments(collection: string, userId: string): Promise<void> {
+  for (;;) {
+    const snapshot = await db
+      .collection(collection)
+      .where('userId', '==', userId)
+      .limit(DELETE_BATCH_SIZE)
+      .get();
+    if (snapshot.empty) {
+      return;
+    }
+
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
 
 /**
  * Creates or logs in a user with email and password
  * This function handles anonymous user conversion to authenticated users
  */
-export const signUpOrLogIn = onCall(async (request: CallableRequest<SignUpOrLogInData>) => {
+export const signUpOrLogIn = onCall(async (request) => {
   logger.info('signUpOrLogIn called');
 
-  const { email, password, displayName } = request.data;
-
-  // Validate input
-  if (!email || typeof email !== 'string') {
-    throw new HttpsError('invalid-argument', 'A valid email must be provided.');
-  }
-
-  if (!password || typeof password !== 'string' || password.length < 6) {
-    throw new HttpsError(
-      'invalid-argument',
-      'A valid password (min 6 characters) must be provided.',
-    );
-  }
+  const { email, password, displayName } = parseData(signUpOrLogInDataSchema, request.data);
 
   try {
     let userRecord: UserRecord;
@@ -106,6 +119,17 @@ export const onUserDelete = functionsV1.auth.user().onDelete(async (user) => {
     // Delete Strava tokens
     await db.collection(FIRESTORE_COLLECTIONS.STRAVA_TOKENS).doc(user.uid).delete();
 
+    // Delete Strava history backfill progress
+    await db.collection(FIRESTORE_COLLECTIONS.STRAVA_BACKFILLS).doc(user.uid).delete();
+
+    // Delete quest and achievement progress
+    await db.collection(FIRESTORE_COLLECTIONS.USER_QUESTS).doc(user.uid).delete();
+    await db.collection(FIRESTORE_COLLECTIONS.USER_ACHIEVEMENTS).doc(user.uid).delete();
+
+    // Delete XP ledger entries and anti-cheat reviews
+    await deleteUserDocuments(FIRESTORE_COLLECTIONS.XP_LEDGER, user.uid);
+    await deleteUserDocuments(FIRESTORE_COLLECTIONS.ACTIVITY_REVIEWS, user.uid);
+
     logger.info(`User data cleaned up: ${user.uid}`);
   } catch (error) {
     logger.error(`Error cleaning up user data: ${user.uid}`, error);
@@ -1,11 +1,25 @@
-import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import {
+  emptyDataSchema,
+  HEART_RATE_RANGE_MESSAGE,
+  isHeartRateRangeValid,
+  updateProfileDataSchema,
+} from '@endu/shared/schemas';
+import { ProfileResponse, SuccessResponse, UserProfile } from '@endu/shared/types';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
 import * as logger from 'firebase-functions/logger';
 import { HttpsError, onCall } from 'firebase-functions/v2/https';
 
 import { auth, db } from '../admin';
 import { FIRESTORE_COLLECTIONS } from '../config';
 import { handleError } from '../handleError';
-import { ProfileResponse, SuccessResponse, UpdateProfileData } from '../types';
+import { parseData } from '../parseData';
+
+/**
+ * Rounds a training setting for storage, or deletes it when cleared
+ */
+function toSettingUpdate(value: number | null): number | FieldValue {
+  return value === null ? FieldValue.delete() : Math.round(value);
+}
 
 /**
  * Gets the current user's profile
@@ -15,6 +29,8 @@ export const getUserProfile = onCall(async (request): Promise<ProfileResponse> =
     throw new HttpsError('unauthenticated', 'User must be authenticated.');
   }
 
+  parseData(emptyDataSchema, request.data);
+
   const userId = request.auth.uid;
 
   try {
@@ -26,7 +42,7 @@ export const getUserProfile = onCall(async (request): Promise<ProfileResponse> =
 
     return {
       status: 'success',
-      profile: userDoc.data() as DocumentData,
+      profile: userDoc.data() as UserProfile,
     };
   } catch (error) {
     handleError(error, 'Error getting user profile:', 'Failed to get user profile.');
@@ -42,24 +58,49 @@ export const updateUserProfile = onCall(async (request): Promise<SuccessResponse
   }
 
   const userId = request.auth.uid;
-  const { displayName } = request.data as UpdateProfileData;
+  const { displayName, maxHeartRate, restingHeartRate, ftp } = parseData(
+    updateProfileDataSchema,
+    request.data,
+  );
 
   try {
-    const updates: { updatedAt: Timestamp; displayName?: string } = {
-      updatedAt: Timestamp.now(),
-    };
+    const userRef = db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId);
+
+    await db.runTransaction(async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      if (!userDoc.exists) {
+        throw new HttpsError('not-found', 'User profile not found.');
+      }
+
+      // The request may change only one of the heart rates, so check the values once merged
+      const stored = userDoc.data() as UserProfile;
+      if (
+        !isHeartRateRangeValid(
+          maxHeartRate === undefined ? stored.maxHeartRate : maxHeartRate,
+          restingHeartRate === undefined ? stored.restingHeartRate : restingHeartRate,
+        )
+      ) {
+        throw new HttpsError('invalid-argument', HEART_RATE_RANGE_MESSAGE);
+      }
+
+      transaction.update(userRef, {
+        ...(displayName !== undefined && { displayName }),
+        ...(maxHeartRate !== undefined && { maxHeartRate: toSettingUpdate(maxHeartRate) }),
+        ...(restingHeartRate !== undefined && {
+          restingHeartRate: toSettingUpdate(restingHeartRate),
+        }),
+        ...(ftp !== undefined && { ftp: toSettingUpdate(ftp) }),
+        updatedAt: Timestamp.now(),
+      });
+    });
 
     if (displayName !== undefined) {
-      updates.displayName = displayName;
-
       // Also update Firebase Auth
       await auth.updateUser(userId, {
         displayName: displayName,
       });
     }
 
-    await db.collection(FIRESTORE_COLLECTIONS.USERS).doc(userId).update(updates);
-
     logger.info(`User profile updated: ${userId}`);
 
     return {
@@ -79,6 +120,7 @@ export const deleteUserAccount = onCall(async (request): Promise<SuccessResponse
     throw new HttpsError('unauthenticated', 'User must be authenticated.');
   }
 
+  parseData(emptyDataSchema, request.data);
   const userId = request.auth.uid;
 
   try {
@@ -0,0 +1,38 @@
+import {
+  CALLABLE_RESPONSE_SCHEMAS,
+  CallableName,
+  CallableRequest,
+  CallableResponse,
+} from './contract';
+
+/**
+ * Calls a callable by name and resolves with its raw response data
+ * Each app implements this with its Firebase SDK's httpsCallable
+ */
+export type CallableInvoker = (name: CallableName, data: unknown) => Promise<unknown>;
+
+// Callables without data take no argument; data with only optional fields can be left out
+type CallableArgs<K extends CallableName> = [CallableRequest<K>] extends [void]
+  ? []
+  : object extends CallableRequest<K>
+    ? [data?: CallableRequest<K>]
+    : [data: CallableRequest<K>];
+
+export type ApiClient = {
+  [K in CallableName]: (...args: CallableArgs<K>) => Promise<CallableResponse<K>>;
+};
+
+/**
+ * Creates a client with a method per callable in the contract
+ * Responses are validated against the contract's schemas
+ * @param invoke - Calls a callable through the app's Firebase SDK
+ */
+export function createApiClient(invoke: CallableInvoker): ApiClient {
+  const client: Partial<Record<CallableName, (data?: unknown) => Promise<unknown>>> = {};
+
+  for (const name of Object.keys(CALLABLE_RESPONSE_SCHEMAS) as CallableName[]) {
+    client[name] = async (data) => CALLABLE_RESPONSE_SCHEMAS[name].parse(await invoke(name, data));
+  }
+
+  return client as ApiClient;
+}
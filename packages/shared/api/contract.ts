@@ -0,0 +1,105 @@
+import type { z } from 'zod';
+
+import {
+  achievementsResponseSchema,
+  addDebugXPResponseSchema,
+  exchangeCodeResponseSchema,
+  gameProfileResponseSchema,
+  getActivitiesResponseSchema,
+  profileResponseSchema,
+  questsResponseSchema,
+  recomputeGameProfilesResponseSchema,
+  reviewQueueResponseSchema,
+  signUpOrLogInResponseSchema,
+  stravaBackfillResponseSchema,
+  successResponseSchema,
+  syncActivitiesResponseSchema,
+  xpHistoryResponseSchema,
+} from '../schemas';
+import type {
+  AchievementsResponse,
+  AddDebugXPData,
+  AddDebugXPResponse,
+  ExchangeCodeData,
+  ExchangeCodeResponse,
+  GameProfileResponse,
+  GetActivitiesData,
+  GetActivitiesResponse,
+  GetReviewQueueData,
+  GetXPHistoryData,
+  ProfileResponse,
+  QuestsResponse,
+  RecomputeGameProfilesData,
+  RecomputeGameProfilesResponse,
+  ResolveActivityReviewData,
+  ReviewQueueResponse,
+  SetCountedActivityData,
+  SignUpOrLogInData,
+  SignUpOrLogInResponse,
+  StravaBackfillResponse,
+  SuccessResponse,
+  SyncActivitiesData,
+  SyncActivitiesResponse,
+  UpdateProfileData,
+  XPHistoryResponse,
+} from '../types';
+
+// A callable's request data and response; void for callables that take no data
+export interface Callable<TRequest, TResponse> {
+  request: TRequest;
+  response: TResponse;
+}
+
+// Every callable exported by @endu/functions, by name
+export interface CallableContract {
+  signUpOrLogIn: Callable<SignUpOrLogInData, SignUpOrLogInResponse>;
+  getUserProfile: Callable<void, ProfileResponse>;
+  updateUserProfile: Callable<UpdateProfileData, SuccessResponse>;
+  deleteUserAccount: Callable<void, SuccessResponse>;
+  exchangeCodeForToken: Callable<ExchangeCodeData, ExchangeCodeResponse>;
+  disconnectStrava: Callable<void, SuccessResponse>;
+  fetchStravaActivities: Callable<SyncActivitiesData, SyncActivitiesResponse>;
+  getUserActivities: Callable<GetActivitiesData, GetActivitiesResponse>;
+  getStravaBackfill: Callable<void, StravaBackfillResponse>;
+  startStravaBackfill: Callable<void, StravaBackfillResponse>;
+  getGameProfile: Callable<void, GameProfileResponse>;
+  recomputeGameProfile: Callable<void, GameProfileResponse>;
+  recomputeGameProfiles: Callable<RecomputeGameProfilesData, RecomputeGameProfilesResponse>;
+  addDebugXP: Callable<AddDebugXPData, AddDebugXPResponse>;
+  getXPHistory: Callable<GetXPHistoryData, XPHistoryResponse>;
+  getQuests: Callable<void, QuestsResponse>;
+  getAchievements: Callable<void, AchievementsResponse>;
+  setCountedActivity: Callable<SetCountedActivityData, SuccessResponse>;
+  getReviewQueue: Callable<GetReviewQueueData, ReviewQueueResponse>;
+  resolveActivityReview: Callable<ResolveActivityReviewData, SuccessResponse>;
+}
+
+export type CallableName = keyof CallableContract;
+export type CallableRequest<K extends CallableName> = CallableContract[K]['request'];
+export type CallableResponse<K extends CallableName> = CallableContract[K]['response'];
+
+// Validates each callable's response; a contract entry without a schema doesn't compile
+export const CALLABLE_RESPONSE_SCHEMAS: {
+  [K in CallableName]: z.ZodType<CallableResponse<K>>;
+} = {
+  signUpOrLogIn: signUpOrLogInResponseSchema,
+  getUserProfile: profileResponseSchema,
+  updateUserProfile: successResponseSchema,
+  deleteUserAccount: successResponseSchema,
+  exchangeCodeForToken: exchangeCodeResponseSchema,
+  disconnectStrava: successResponseSchema,
+  fetchStravaActivities: syncActivitiesResponseSchema,
+  getUserActivities: getActivitiesResponseSchema,
+  getStravaBackfill: stravaBackfillResponseSchema,
+  startStravaBackfill: stravaBackfillResponseSchema,
+  getGameProfile: gameProfileResponseSchema,
+  recomputeGameProfile: gameProfileResponseSchema,
+  recomputeGameProfiles: recomputeGameProfilesResponseSchema,
+  addDebugXP: addDebugXPResponseSchema,
+  getXPHistory: xpHistoryResponseSchema,
+  getQuests: questsResponseSchema,
+  getAchievements: achievementsResponseSchema,
+  setCountedActivity: successResponseSchema,
+  getReviewQueue: reviewQueueResponseSchema,
+  resolveActivityReview: successResponseSchema,
+};
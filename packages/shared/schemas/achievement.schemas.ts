@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+import type { Achievement, AchievementsResponse } from '../types';
+
+export const achievementSchema = z.object({
+  id: z.enum([
+    'first_marathon',
+    'cycling_1000km',
+    'elevation_10000m',
+    'streak_30_days',
+    'swim_5km',
+  ]),
+  title: z.string(),
+  description: z.string(),
+  icon: z.string(),
+  unlocked: z.boolean(),
+  unlockedAt: z.string().nullable(),
+}) satisfies z.ZodType<Achievement>;
+
+export const achievementsResponseSchema = z.object({
+  status: z.literal('success'),
+  achievements: z.array(achievementSchema),
+}) satisfies z.ZodType<AchievementsResponse>;
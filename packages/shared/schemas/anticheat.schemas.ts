@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+import type {
+  ActivityAntiCheat,
+  ActivityReviewResponse,
+  AntiCheatFlag,
+  GetReviewQueueData,
+  ResolveActivityReviewData,
+  ReviewQueueResponse,
+  SetCountedActivityData,
+} from '../types';
+import { optionalField, serializedTimestampSchema, wholeNumber } from './common.schemas';
+
+export const antiCheatFlagSchema = z.object({
+  code: z.enum([
+    'speed_limit',
+    'max_speed_limit',
+    'manual_entry',
+    'elevation_per_km',
+    'overlapping_activity',
+    'elapsed_moving_ratio',
+    'possible_ebike',
+  ]),
+  severity: z.enum(['warning', 'block']),
+  message: z.string(),
+}) satisfies z.ZodType<AntiCheatFlag>;
+
+export const activityAntiCheatSchema = z.object({
+  status: z.enum(['clear', 'flagged', 'pending_review', 'approved', 'rejected']),
+  flags: z.array(antiCheatFlagSchema),
+  checkedAt: serializedTimestampSchema,
+  reviewedBy: optionalField(z.string()),
+  reviewedAt: optionalField(serializedTimestampSchema),
+}) satisfies z.ZodType<ActivityAntiCheat>;
+
+export const activityReviewResponseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  activityId: z.number(),
+  activityName: z.string(),
+  sportType: z.string(),
+  flags: z.array(antiCheatFlagSchema),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  createdAt: z.string(),
+  resolvedBy: optionalField(z.string()),
+}) satisfies z.ZodType<ActivityReviewResponse>;
+
+export const reviewQueueResponseSchema = z.object({
+  status: z.literal('success'),
+  reviews: z.array(activityReviewResponseSchema),
+  nextStartAfter: z.string().nullable(),
+}) satisfies z.ZodType<ReviewQueueResponse>;
+
+const ACTIVITY_ID_MESSAGE = 'activityId must be a Strava activity ID.';
+
+// Strava activity IDs are positive integers
+const activityIdSchema = z
+  .number(ACTIVITY_ID_MESSAGE)
+  .int(ACTIVITY_ID_MESSAGE)
+  .positive(ACTIVITY_ID_MESSAGE);
+
+export const getReviewQueueDataSchema = z.object({
+  limit: optionalField(wholeNumber('limit', 1, 100)),
+  startAfter: optionalField(z.string('startAfter must be a review ID.')),
+}) satisfies z.ZodType<GetReviewQueueData>;
+
+export const resolveActivityReviewDataSchema = z.object({
+  userId: z.string('userId must be a user ID.').min(1, 'userId must be a user ID.'),
+  activityId: activityIdSchema,
+  decision: z.enum(['approve', 'reject'], "decision must be 'approve' or 'reject'."),
+}) satisfies z.ZodType<ResolveActivityReviewData>;
+
+export const setCountedActivityDataSchema = z.object({
+  activityId: activityIdSchema,
+}) satisfies z.ZodType<SetCountedActivityData>;
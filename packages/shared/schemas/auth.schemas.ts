@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+import type { SignUpOrLogInData, SignUpOrLogInResponse } from '../types';
+import { optionalField } from './common.schemas';
+import { displayNameSchema } from './user.schemas';
+
+export const PASSWORD_MIN_LENGTH = 6;
+
+export const signUpOrLogInDataSchema = z.object({
+  email: z.email('A valid email must be provided.'),
+  password: z
+    .string('A password must be provided.')
+    .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters.`),
+  displayName: optionalField(displayNameSchema),
+}) satisfies z.ZodType<SignUpOrLogInData>;
+
+export const signUpOrLogInResponseSchema = z.object({
+  status: z.string(),
+  isNewUser: z.boolean(),
+  customToken: z.string(),
+  user: z.object({
+    uid: z.string(),
+    email: z.string(),
+    displayName: optionalField(z.string()),
+  }),
+}) satisfies z.ZodType<SignUpOrLogInResponse>;
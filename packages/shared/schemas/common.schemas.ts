@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+import type { PaginationData, SerializedTimestamp, SuccessResponse } from '../types';
+
+// Limits for paginated callables
+export const PAGINATION = {
+  MAX_PAGE: 500,
+  MAX_PER_PAGE: 100,
+} as const;
+
+/**
+ * An optional field of a callable payload
+ * Callables encode undefined values as null, so null reads as missing
+ */
+export function optionalField<T extends z.ZodType>(schema: T) {
+  return schema.nullish().transform((value) => value ?? undefined);
+}
+
+/**
+ * An optional field of a callable payload that null clears
+ * Callables encode undefined values as null, so clients omit fields they don't change
+ */
+export function clearableField<T extends z.ZodType>(schema: T) {
+  return schema.nullable().optional();
+}
+
+/**
+ * A whole number within an inclusive range, with one message naming the field
+ */
+export function wholeNumber(field: string, min: number, max: number) {
+  const message = `${field} must be a whole number between ${min} and ${max}.`;
+  return z.number(message).int(message).min(min, message).max(max, message);
+}
+
+// Callables that take no request data still reject non-object payloads
+export const emptyDataSchema = z.object({});
+
+export const paginationDataSchema = z.object({
+  page: optionalField(wholeNumber('page', 1, PAGINATION.MAX_PAGE)),
+  perPage: optionalField(wholeNumber('perPage', 1, PAGINATION.MAX_PER_PAGE)),
+}) satisfies z.ZodType<PaginationData>;
+
+// Timestamps arrive at clients serialized, never as SDK Timestamps
+export const serializedTimestampSchema = z.object({
+  _seconds: z.number(),
+  _nanoseconds: z.number(),
+}) satisfies z.ZodType<SerializedTimestamp>;
+
+export const successResponseSchema = z.object({
+  status: z.literal('success'),
+  message: z.string(),
+}) satisfies z.ZodType<SuccessResponse>;
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+
+import type {
+  AddDebugXPData,
+  AddDebugXPResponse,
+  CharacterAttributes,
+  DailyXPStatus,
+  GameProfile,
+  GameProfileResponse,
+  GetXPHistoryData,
+  RecomputeGameProfilesData,
+  RecomputeGameProfilesResponse,
+  StreakFreezeUse,
+  XPCalculationResult,
+  XPHistoryResponse,
+  XPLedgerEntryResponse,
+} from '../types';
+import {
+  optionalField,
+  paginationDataSchema,
+  serializedTimestampSchema,
+  wholeNumber,
+} from './common.schemas';
+
+export const characterAttributesSchema = z.object({
+  endurance: z.number(),
+  strength: z.number(),
+  speed: z.number(),
+  agility: z.number(),
+  climbing: z.number(),
+}) satisfies z.ZodType<CharacterAttributes>;
+
+export const streakFreezeUseSchema = z.object({
+  day: z.string(),
+  usedAt: serializedTimestampSchema,
+}) satisfies z.ZodType<StreakFreezeUse>;
+
+export const gameProfileSchema = z.looseObject({
+  totalXP: z.number(),
+  level: z.number(),
+  currentLevelXP: z.number(),
+  nextLevelXP: z.number(),
+  streakCount: z.number(),
+  streakActive: z.boolean(),
+  lastActivityDate: optionalField(serializedTimestampSchema),
+  lastActivityDay: optionalField(z.string()),
+  streakFreezes: optionalField(z.number()),
+  timezone: optionalField(z.string()),
+  streakFreezeHistory: optionalField(z.array(streakFreezeUseSchema)),
+  tier: z.enum(['Novice', 'Apprentice', 'Expert', 'Master']),
+  attributes: optionalField(characterAttributesSchema),
+  bonusXP: optionalField(z.number()),
+  manualXPDay: optionalField(z.string()),
+  manualXPEarned: optionalField(z.number()),
+  dailyXPDay: optionalField(z.string()),
+  dailyXPEarned: optionalField(z.number()),
+  dailyXPResetDate: optionalField(serializedTimestampSchema),
+  ledgerEntryCount: optionalField(z.number()),
+}) satisfies z.ZodType<GameProfile>;
+
+export const dailyXPStatusSchema = z.object({
+  earned: z.number(),
+  remaining: z.number(),
+  fullRateRemaining: z.number(),
+  resetsAt: z.string(),
+}) satisfies z.ZodType<DailyXPStatus>;
+
+export const gameProfileResponseSchema = z.object({
+  status: z.literal('success'),
+  game: gameProfileSchema,
+  dailyXP: optionalField(dailyXPStatusSchema),
+}) satisfies z.ZodType<GameProfileResponse>;
+
+export const xpCalculationResultSchema = z.object({
+  baseXP: z.number(),
+  elevationXP: z.number(),
+  powerBased: optionalField(z.boolean()),
+  streakBonus: z.number(),
+  effortBonus: optionalField(z.number()),
+  manualPolicy: optionalField(z.enum(['multiplier', 'daily_cap', 'review'])),
+  manualReduction: optionalField(z.number()),
+  dailyLimitReduction: optionalField(z.number()),
+  totalXP: z.number(),
+}) satisfies z.ZodType<XPCalculationResult>;
+
+export const xpLedgerEntryResponseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: z.enum([
+    'activity',
+    'elevation',
+    'streak_bonus',
+    'effort',
+    'manual',
+    'daily_limit',
+    'debug',
+    'reversal',
+    'recompute',
+    'quest',
+  ]),
+  amount: z.number(),
+  balanceAfter: z.number(),
+  activityId: optionalField(z.number()),
+  description: z.string(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<XPLedgerEntryResponse>;
+
+export const xpHistoryResponseSchema = z.object({
+  status: z.literal('success'),
+  entries: z.array(xpLedgerEntryResponseSchema),
+  nextCursor: z.string().nullable(),
+}) satisfies z.ZodType<XPHistoryResponse>;
+
+export const addDebugXPResponseSchema = z.object({
+  status: z.literal('success'),
+  newTotalXP: z.number(),
+  newLevel: z.number(),
+}) satisfies z.ZodType<AddDebugXPResponse>;
+
+export const recomputeGameProfilesResponseSchema = z.object({
+  status: z.literal('success'),
+  processed: z.number(),
+  failed: z.array(z.string()),
+  nextStartAfter: z.string().nullable(),
+}) satisfies z.ZodType<RecomputeGameProfilesResponse>;
+
+// Cursors are opaque to clients; the callable rejects ones it did not issue
+export const getXPHistoryDataSchema = z.object({
+  cursor: optionalField(z.string('cursor must be a string.').max(200, 'cursor is invalid.')),
+  perPage: paginationDataSchema.shape.perPage,
+}) satisfies z.ZodType<GetXPHistoryData>;
+
+export const addDebugXPDataSchema = z.object({
+  xpToAdd: wholeNumber('xpToAdd', -1_000_000, 1_000_000),
+}) satisfies z.ZodType<AddDebugXPData>;
+
+export const recomputeGameProfilesDataSchema = z.object({
+  userIds: optionalField(
+    z
+      .array(z.string().min(1, 'userIds must not be empty strings.'))
+      .max(100, 'userIds must list at most 100 users.'),
+  ),
+  startAfter: optionalField(z.string('startAfter must be a user ID.')),
+  limit: optionalField(wholeNumber('limit', 1, 200)),
+}) satisfies z.ZodType<RecomputeGameProfilesData>;
@@ -0,0 +1,8 @@
+export * from './common.schemas';
+export * from './strava.schemas';
+export * from './auth.schemas';
+export * from './user.schemas';
+export * from './game.schemas';
+export * from './quest.schemas';
+export * from './achievement.schemas';
+export * from './anticheat.schemas';
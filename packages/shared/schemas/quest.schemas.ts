@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+import type { QuestProgress, QuestSet, QuestsResponse } from '../types';
+import { optionalField } from './common.schemas';
+
+export const questProgressSchema = z.object({
+  questId: z.string(),
+  title: z.string(),
+  metric: z.enum([
+    'distance',
+    'moving_time',
+    'elevation',
+    'activity_count',
+    'distinct_sport_types',
+  ]),
+  target: z.number(),
+  progress: z.number(),
+  xpReward: z.number(),
+  completed: z.boolean(),
+  sportTypes: optionalField(z.array(z.string())),
+}) satisfies z.ZodType<QuestProgress>;
+
+export const questSetSchema = z.object({
+  periodKey: z.string(),
+  endsAt: z.string(),
+  quests: z.array(questProgressSchema),
+}) satisfies z.ZodType<QuestSet>;
+
+export const questsResponseSchema = z.object({
+  status: z.literal('success'),
+  daily: questSetSchema,
+  weekly: questSetSchema,
+}) satisfies z.ZodType<QuestsResponse>;
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+
+import type {
+  ExchangeCodeData,
+  ExchangeCodeResponse,
+  GetActivitiesData,
+  GetActivitiesResponse,
+  StravaActivity,
+  StravaBackfillProgress,
+  StravaBackfillResponse,
+  StravaWebhookEvent,
+  SyncActivitiesData,
+  SyncActivitiesResponse,
+} from '../types';
+import { activityAntiCheatSchema } from './anticheat.schemas';
+import { optionalField, paginationDataSchema } from './common.schemas';
+import { xpCalculationResultSchema } from './game.schemas';
+
+// Activities keep any Strava fields the types don't list
+export const stravaActivitySchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  distance: z.number(),
+  moving_time: z.number(),
+  elapsed_time: z.number(),
+  total_elevation_gain: z.number(),
+  type: z.string(),
+  sport_type: z.string(),
+  start_date: z.string(),
+  start_date_local: z.string(),
+  timezone: z.string(),
+  average_speed: z.number(),
+  max_speed: z.number(),
+  average_cadence: optionalField(z.number()),
+  average_watts: optionalField(z.number()),
+  weighted_average_watts: optionalField(z.number()),
+  kilojoules: optionalField(z.number()),
+  device_watts: optionalField(z.boolean()),
+  has_heartrate: z.boolean(),
+  average_heartrate: optionalField(z.number()),
+  max_heartrate: optionalField(z.number()),
+  max_watts: optionalField(z.number()),
+  athlete_count: z.number(),
+  commute: z.boolean(),
+  manual: z.boolean(),
+  private: z.boolean(),
+  map: optionalField(z.object({ id: z.string(), summary_polyline: z.string() })),
+  xpEarned: optionalField(z.number()),
+  xpBreakdown: optionalField(xpCalculationResultSchema),
+  antiCheat: optionalField(activityAntiCheatSchema),
+  duplicateOf: optionalField(z.number()),
+}) satisfies z.ZodType<StravaActivity>;
+
+export const syncActivitiesResponseSchema = z.object({
+  status: z.literal('success'),
+  activities: z.array(stravaActivitySchema),
+}) satisfies z.ZodType<SyncActivitiesResponse>;
+
+export const getActivitiesResponseSchema = z.object({
+  status: z.literal('success'),
+  activities: z.array(stravaActivitySchema),
+  nextCursor: z.string().nullable(),
+}) satisfies z.ZodType<GetActivitiesResponse>;
+
+export const stravaBackfillProgressSchema = z.object({
+  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  activitiesFetched: z.number(),
+  activitiesStored: z.number(),
+  progress: z.number(),
+  lastActivityDate: optionalField(z.string()),
+  error: optionalField(z.string()),
+}) satisfies z.ZodType<StravaBackfillProgress>;
+
+export const stravaBackfillResponseSchema = z.object({
+  status: z.literal('success'),
+  backfill: stravaBackfillProgressSchema.nullable(),
+}) satisfies z.ZodType<StravaBackfillResponse>;
+
+export const exchangeCodeResponseSchema = z.object({
+  status: z.literal('success'),
+  data: z.object({
+    athlete: z.object({
+      id: z.number(),
+      firstname: z.string(),
+      lastname: z.string(),
+    }),
+    access_token: z.string(),
+  }),
+}) satisfies z.ZodType<ExchangeCodeResponse>;
+
+export const exchangeCodeDataSchema = z.object({
+  code: z
+    .string("A valid 'code' must be provided.")
+    .min(1, "A valid 'code' must be provided.")
+    .max(255, "A valid 'code' must be provided."),
+}) satisfies z.ZodType<ExchangeCodeData>;
+
+// Webhook requests are unauthenticated, so events are checked before they are stored
+export const stravaWebhookEventSchema = z.object({
+  object_id: z.number().int().positive(),
+  object_type: z.enum(['activity', 'athlete']),
+  aspect_type: z.enum(['create', 'update', 'delete']),
+  owner_id: z.number().int().positive(),
+  event_time: z.number().int().positive(),
+  subscription_id: z.number().int().positive(),
+  updates: optionalField(
+    z.object({
+      title: optionalField(z.string()),
+      type: optionalField(z.string()),
+      private: optionalField(z.enum(['true', 'false'])),
+      authorized: optionalField(z.enum(['true', 'false'])),
+    }),
+  ),
+}) satisfies z.ZodType<StravaWebhookEvent>;
+
+export const syncActivitiesDataSchema =
+  paginationDataSchema satisfies z.ZodType<SyncActivitiesData>;
+
+// Cursors are opaque to clients; the callable rejects ones it did not issue
+export const getActivitiesDataSchema = z.object({
+  cursor: optionalField(z.string('cursor must be a string.').max(200, 'cursor is invalid.')),
+  perPage: paginationDataSchema.shape.perPage,
+}) satisfies z.ZodType<GetActivitiesData>;
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+
+import type { ProfileResponse, UpdateProfileData, UserProfile, UserStats } from '../types';
+import { clearableField, optionalField, serializedTimestampSchema } from './common.schemas';
+import { gameProfileSchema } from './game.schemas';
+
+// Accepted training settings, inclusive
+export const PROFILE_RANGES = {
+  MAX_HEART_RATE: [100, 230], // bpm
+  RESTING_HEART_RATE: [30, 120], // bpm
+  FTP: [50, 600], // watts
+} as const;
+
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+
+export const displayNameSchema = z
+  .string('Display name must be text.')
+  .trim()
+  .min(1, 'Display name is required.')
+  .max(
+    DISPLAY_NAME_MAX_LENGTH,
+    `Display name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters.`,
+  );
+
+export const HEART_RATE_RANGE_MESSAGE = 'Resting heart rate must be below max heart rate.';
+
+/**
+ * Checks that resting heart rate is below max heart rate, when both are set
+ * The server also checks the values a profile will have once an update is merged in
+ */
+export function isHeartRateRangeValid(
+  maxHeartRate: number | null | undefined,
+  restingHeartRate: number | null | undefined,
+): boolean {
+  return maxHeartRate == null || restingHeartRate == null || restingHeartRate < maxHeartRate;
+}
+
+/**
+ * A number within an inclusive range, with one message for both bounds
+ */
+function numberInRange([min, max]: readonly [number, number], message: string) {
+  return z.number(message).min(min, message).max(max, message);
+}
+
+export const userStatsSchema = z.object({
+  totalDistance: z.number(),
+  totalMovingTime: z.number(),
+  totalElevationGain: z.number(),
+  activitiesCount: z.number(),
+  cyclingDistance: optionalField(z.number()),
+  lastActivityDate: optionalField(serializedTimestampSchema),
+}) satisfies z.ZodType<UserStats>;
+
+export const userProfileSchema = z.looseObject({
+  uid: z.string(),
+  email: z.string(),
+  displayName: z.string().nullish(),
+  stravaId: optionalField(z.number()),
+  stravaConnected: z.boolean(),
+  stravaFirstname: optionalField(z.string()),
+  stravaLastname: optionalField(z.string()),
+  stravaDisconnectReason: optionalField(z.enum(['user', 'revoked'])),
+  stravaDisconnectedAt: optionalField(serializedTimestampSchema),
+  stats: optionalField(userStatsSchema),
+  game: optionalField(gameProfileSchema),
+  maxHeartRate: optionalField(z.number()),
+  restingHeartRate: optionalField(z.number()),
+  ftp: optionalField(z.number()),
+  createdAt: serializedTimestampSchema,
+  updatedAt: serializedTimestampSchema,
+}) satisfies z.ZodType<UserProfile>;
+
+export const profileResponseSchema = z.object({
+  status: z.literal('success'),
+  profile: userProfileSchema,
+}) satisfies z.ZodType<ProfileResponse>;
+
+export const updateProfileDataSchema = z
+  .object({
+    displayName: optionalField(displayNameSchema),
+    maxHeartRate: clearableField(
+      numberInRange(
+        PROFILE_RANGES.MAX_HEART_RATE,
+        `Max heart rate must be between ${PROFILE_RANGES.MAX_HEART_RATE.join(' and ')} bpm.`,
+      ),
+    ),
+    restingHeartRate: clearableField(
+      numberInRange(
+        PROFILE_RANGES.RESTING_HEART_RATE,
+        `Resting heart rate must be between ${PROFILE_RANGES.RESTING_HEART_RATE.join(' and ')} bpm.`,
+      ),
+    ),
+    ftp: clearableField(
+      numberInRange(
+        PROFILE_RANGES.FTP,
+        `FTP must be between ${PROFILE_RANGES.FTP.join(' and ')} watts.`,
+      ),
+    ),
+  })
+  .refine(
+    ({ maxHeartRate, restingHeartRate }) => isHeartRateRangeValid(maxHeartRate, restingHeartRate),
+    {
+      message: HEART_RATE_RANGE_MESSAGE,
+      path: ['restingHeartRate'],
+    },
+  ) satisfies z.ZodType<UpdateProfileData>;
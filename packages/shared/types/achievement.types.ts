@@ -0,0 +1,37 @@
+import type { TimestampValue } from './common.types';
+
+// Achievement types
+export type AchievementId =
+  | 'first_marathon'
+  | 'cycling_1000km'
+  | 'elevation_10000m'
+  | 'streak_30_days'
+  | 'swim_5km';
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  title: string;
+  description: string;
+  icon: string; // Emoji shown on the badge
+}
+
+export interface UnlockedAchievement {
+  unlockedAt: TimestampValue;
+  activityId?: number; // Activity that triggered the unlock
+}
+
+export interface UserAchievements {
+  userId: string;
+  unlocked: Partial<Record<AchievementId, UnlockedAchievement>>;
+  updatedAt: TimestampValue;
+}
+
+export interface Achievement extends AchievementDefinition {
+  unlocked: boolean;
+  unlockedAt: string | null; // ISO 8601 format
+}
+
+export interface AchievementsResponse {
+  status: 'success';
+  achievements: Achievement[];
+}
@@ -0,0 +1,69 @@
+import type { TimestampValue } from './common.types';
+
+// Anti-cheat types
+export type AntiCheatReasonCode =
+  | 'speed_limit' // Average speed above the sport's limit
+  | 'max_speed_limit' // Top speed above the sport's limit
+  | 'manual_entry' // Typed in rather than recorded
+  | 'elevation_per_km' // Implausible climbing for the distance
+  | 'overlapping_activity' // Time range overlaps another activity
+  | 'elapsed_moving_ratio' // Moving time inconsistent with elapsed time
+  | 'possible_ebike'; // Ride fast enough uphill to be an e-bike
+
+export type AntiCheatSeverity = 'warning' | 'block';
+
+export interface AntiCheatFlag {
+  code: AntiCheatReasonCode;
+  severity: AntiCheatSeverity; // Blocking flags withhold XP until reviewed
+  message: string;
+}
+
+export type AntiCheatStatus = 'clear' | 'flagged' | 'pending_review' | 'approved' | 'rejected';
+
+export interface ActivityAntiCheat {
+  status: AntiCheatStatus;
+  flags: AntiCheatFlag[];
+  checkedAt: TimestampValue;
+  reviewedBy?: string; // Admin user ID
+  reviewedAt?: TimestampValue;
+}
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ActivityReview {
+  userId: string;
+  activityId: number;
+  activityName: string;
+  sportType: string;
+  flags: AntiCheatFlag[];
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: TimestampValue;
+  resolvedBy?: string;
+  resolvedAt?: TimestampValue;
+}
+
+export interface GetReviewQueueData {
+  limit?: number;
+  startAfter?: string; // Review ID to continue after
+}
+
+export interface ActivityReviewResponse extends Omit<ActivityReview, 'createdAt' | 'resolvedAt'> {
+  id: string;
+  createdAt: string; // ISO 8601 format
+}
+
+export interface ReviewQueueResponse {
+  status: 'success';
+  reviews: ActivityReviewResponse[];
+  nextStartAfter: string | null;
+}
+
+export interface ResolveActivityReviewData {
+  userId: string;
+  activityId: number;
+  decision: ReviewDecision;
+}
+
+export interface SetCountedActivityData {
+  activityId: number; // Duplicate activity that should count instead
+}
@@ -5,6 +5,13 @@ export interface MinimalUser {
   displayName?: string | null;
 }
 
+// Authentication types
+export interface SignUpOrLogInData {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
 export interface SignUpOrLogInResponse {
   status: string;
   isNewUser: boolean;
@@ -16,8 +23,9 @@ export interface SignUpOrLogInResponse {
   };
 }
 
-export interface AuthContextType {
-  user: any | null; // Using any to avoid firebase dependency
+// Apps pass their Firebase SDK's User type
+export interface AuthContextType<TUser extends MinimalUser = MinimalUser> {
+  user: TUser | null;
   loading: boolean;
   isAuthenticated: boolean;
 }
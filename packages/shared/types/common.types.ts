@@ -0,0 +1,34 @@
+// Firestore timestamp types, independent of the admin and client SDKs
+// Both SDKs' Timestamp classes match FirestoreTimestamp
+export interface FirestoreTimestamp {
+  seconds: number;
+  nanoseconds: number;
+  toDate(): Date;
+  toMillis(): number;
+}
+
+// A Timestamp after passing through a callable response (or JSON)
+export interface SerializedTimestamp {
+  _seconds: number;
+  _nanoseconds: number;
+}
+
+export type TimestampValue = FirestoreTimestamp | SerializedTimestamp;
+
+// Common request types
+export interface PaginationData {
+  page?: number; // 1-based
+  perPage?: number;
+}
+
+// Common response types
+export interface SuccessResponse {
+  status: 'success';
+  message: string;
+}
+
+// Details of an 'invalid-argument' error from request validation
+export interface ValidationErrorDetails {
+  formErrors: string[]; // Errors not tied to a single field
+  fieldErrors: Record<string, string[]>; // Errors by request field
+}
@@ -1,19 +1,196 @@
+import type { TimestampValue } from './common.types';
+import type { UserStats } from './stats.types';
+import type { StravaActivity } from './strava.types';
+
+// Character progression types
 export type CharacterTier = 'Novice' | 'Apprentice' | 'Expert' | 'Master';
 
+// Character attribute points, grown by each activity
+export interface CharacterAttributes {
+  endurance: number; // Long aerobic sessions
+  strength: number; // Workouts and weight training
+  speed: number; // Fast-paced distance activities
+  agility: number; // Technical sports (trail, MTB, ski, climbing)
+  climbing: number; // Elevation gain
+}
+
 export interface GameProfile {
-  totalXP: number;
-  level: number;
-  currentLevelXP: number;
-  nextLevelXP: number;
-  streakCount: number;
-  streakActive: boolean;
-  lastActivityDate?: any;
-  dailyXPEarned: number;
-  dailyXPResetDate?: any;
-  tier: CharacterTier;
+  totalXP: number; // Total XP earned
+  level: number; // Current character level
+  currentLevelXP: number; // XP in current level
+  nextLevelXP: number; // XP required for next level
+  streakCount: number; // Consecutive days with activity
+  streakActive: boolean; // Whether streak bonus is active (3+ days)
+  lastActivityDate?: TimestampValue; // Last activity date for streak tracking
+  lastActivityDay?: string; // Athlete's local calendar day of the last activity (YYYY-MM-DD)
+  streakFreezes?: number; // Rest-day tokens that bridge a single-day gap
+  timezone?: string; // Athlete's IANA timezone from their latest activity
+  streakFreezeHistory?: StreakFreezeUse[]; // Most recent freeze uses, newest last
+  tier: CharacterTier; // Character tier based on level
+  attributes?: CharacterAttributes; // Attribute points (missing on legacy profiles)
+  bonusXP?: number; // XP from quests and other non-activity rewards (kept on recompute)
+  manualXPDay?: string; // Local day (YYYY-MM-DD) manualXPEarned counts towards
+  manualXPEarned?: number; // XP earned from manual activities on manualXPDay
+  dailyXPDay?: string; // Local day (YYYY-MM-DD) dailyXPEarned counts towards
+  dailyXPEarned?: number; // Activity XP earned on dailyXPDay
+  dailyXPResetDate?: TimestampValue; // Local midnight ending dailyXPDay
+  ledgerEntryCount?: number; // XP ledger entries written, numbering the next entry (kept on recompute)
 }
 
-export interface GameProfileResponse {
+// Daily XP limit as of now, for clients
+export interface DailyXPStatus {
+  earned: number; // Activity XP earned today
+  remaining: number; // XP that can still be earned today
+  fullRateRemaining: number; // XP that can still be earned today before returns diminish
+  resetsAt: string; // Next local midnight, ISO 8601 format
+}
+
+export interface StreakFreezeUse {
+  day: string; // Local calendar day the freeze covered (YYYY-MM-DD)
+  usedAt: TimestampValue;
+}
+
+// XP rule types
+export type XPFormula = 'distance' | 'time' | 'hybrid';
+
+export interface XPRule {
+  sportTypes: string[]; // Strava sport_type values (legacy type values also match)
+  formula: XPFormula;
+  xpPerKm?: number; // Required for distance and hybrid formulas
+  xpPerMin?: number; // Required for time and hybrid formulas
+  usePower?: boolean; // Price from power data instead when the activity has a power meter
+}
+
+export type ManualActivityPolicyMode = 'multiplier' | 'daily_cap' | 'review';
+
+export interface ManualActivityPolicy {
+  mode: ManualActivityPolicyMode;
+  xpMultiplier: number; // Share of XP manual activities keep ('multiplier')
+  dailyXPCap: number; // Max XP from manual activities per local day ('daily_cap')
+}
+
+export interface XPRuleSet {
+  xpPerMElevation: number; // Elevation XP, applies to all activities
+  rules: XPRule[];
+  manualPolicy: ManualActivityPolicy; // How manually entered activities are priced
+}
+
+export interface AthleteProfile {
+  maxHeartRate?: number; // bpm
+  restingHeartRate?: number; // bpm
+  ftp?: number; // Functional threshold power, watts
+}
+
+export interface PricingContext {
+  streakActive: boolean; // Whether the streak bonus applies
+  manualXPToday?: number; // XP manual activities already earned on the activity's local day
+  dailyXPToday?: number; // Activity XP already earned on the activity's local day
+  rules: XPRuleSet;
+  athlete: AthleteProfile;
+}
+
+export interface XPCalculationResult {
+  baseXP: number; // XP before any bonuses (includes elevationXP)
+  elevationXP: number; // Part of baseXP earned from elevation gain
+  powerBased?: boolean; // Whether baseXP was priced from power data instead of distance
+  streakBonus: number; // XP from streak multiplier
+  effortBonus?: number; // XP from heart-rate effort (missing on activities priced before it existed)
+  manualPolicy?: ManualActivityPolicyMode; // Policy applied, only set for manual activities
+  manualReduction?: number; // XP removed by the manual activity policy
+  dailyLimitReduction?: number; // XP removed by the daily XP limit
+  totalXP: number; // Final XP awarded
+}
+
+// XP ledger types
+export type XPLedgerEntryType =
+  | 'activity'
+  | 'elevation'
+  | 'streak_bonus'
+  | 'effort'
+  | 'manual'
+  | 'daily_limit'
+  | 'debug'
+  | 'reversal'
+  | 'recompute'
+  | 'quest';
+
+export interface XPLedgerEntry {
+  userId: string;
+  type: XPLedgerEntryType;
+  amount: number; // Signed XP change
+  balanceAfter: number; // User's total XP after this entry
+  activityId?: number; // Strava activity the entry belongs to
+  description: string;
+  createdAt: TimestampValue;
+}
+
+export interface GetXPHistoryData {
+  cursor?: string; // nextCursor from the previous page; omitted for the first page
+  perPage?: number;
+}
+
+export interface XPLedgerEntryResponse extends Omit<XPLedgerEntry, 'createdAt'> {
+  id: string;
+  createdAt: string; // ISO 8601 format
+}
+
+export interface XPHistoryResponse {
   status: 'success';
+  entries: XPLedgerEntryResponse[];
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface AddDebugXPData {
+  xpToAdd: number; // Negative to subtract
+}
+
+export interface AddDebugXPResponse {
+  status: 'success';
+  newTotalXP: number;
+  newLevel: number;
+}
+
+export interface CalculatedLevel {
+  level: number; // Current level
+  currentLevelXP: number; // XP accumulated in current level
+  nextLevelXP: number; // XP required for next level
+}
+
+export interface StreakCalculationResult {
+  streakCount: number; // Updated streak count
+  streakActive: boolean; // Whether streak bonus is active
+  lastActivityDay: string; // Latest local calendar day with activity (YYYY-MM-DD)
+  streakFreezes: number; // Freezes left after this activity
+  frozenDay?: string; // Gap day covered by a freeze consumed for this activity
+}
+
+export interface GameProfileResponse {
+  status: string;
   game: GameProfile;
+  dailyXP?: DailyXPStatus;
+}
+
+// Replay types
+export interface ReplayedActivity {
+  activity: StravaActivity;
+  xpResult: XPCalculationResult;
+}
+
+export interface ReplayResult {
+  game: GameProfile; // Game profile after replaying every activity
+  stats: UserStats; // Statistics after replaying every activity
+  activities: ReplayedActivity[]; // Activities in chronological order with their XP
+}
+
+export interface RecomputeGameProfilesData {
+  userIds?: string[]; // Specific users to recompute (defaults to all users)
+  startAfter?: string; // User ID to resume after when walking all users
+  limit?: number; // Max users to process in this call
+}
+
+export interface RecomputeGameProfilesResponse {
+  status: 'success';
+  processed: number;
+  failed: string[]; // User IDs that could not be recomputed
+  nextStartAfter: string | null; // Pass as startAfter to continue, null when done
 }
@@ -1,5 +1,9 @@
+export * from './common.types';
 export * from './strava.types';
 export * from './auth.types';
 export * from './user.types';
 export * from './stats.types';
 export * from './game.types';
+export * from './quest.types';
+export * from './achievement.types';
+export * from './anticheat.types';
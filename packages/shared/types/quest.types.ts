@@ -0,0 +1,60 @@
+import type { TimestampValue } from './common.types';
+
+// Quest types
+export type QuestPeriod = 'daily' | 'weekly';
+
+export type QuestMetric =
+  | 'distance' // meters
+  | 'moving_time' // seconds
+  | 'elevation' // meters
+  | 'activity_count'
+  | 'distinct_sport_types';
+
+export interface QuestDefinition {
+  id: string;
+  period: QuestPeriod;
+  title: string;
+  metric: QuestMetric;
+  target: number; // In the metric's unit
+  activityTypes?: string[]; // Only these activity types count (all types if omitted)
+  xpReward: number;
+}
+
+// What one activity added to a quest
+export interface QuestContribution {
+  activityId: number;
+  amount: number; // In the quest metric's unit
+  sportType?: string; // distinct_sport_types only
+}
+
+export interface QuestProgress {
+  questId: string;
+  title: string;
+  metric: QuestMetric;
+  target: number;
+  progress: number;
+  xpReward: number;
+  completed: boolean;
+  sportTypes?: string[]; // Sport types seen so far (distinct_sport_types only)
+  contributions?: QuestContribution[]; // Activities counted so far, so changes can be undone
+  completedBy?: number; // Activity whose ledger entry holds the reward
+}
+
+export interface QuestSet {
+  periodKey: string; // Start date of the period (YYYY-MM-DD, the athlete's local day)
+  endsAt: string; // ISO 8601 format
+  quests: QuestProgress[];
+}
+
+export interface UserQuests {
+  userId: string;
+  daily: QuestSet;
+  weekly: QuestSet;
+  updatedAt: TimestampValue;
+}
+
+export interface QuestsResponse {
+  status: 'success';
+  daily: QuestSet;
+  weekly: QuestSet;
+}
@@ -1,7 +1,11 @@
+import type { TimestampValue } from './common.types';
+
+// User statistics types
 export interface UserStats {
-  totalDistance: number;
-  totalMovingTime: number;
-  totalElevationGain: number;
-  activitiesCount: number;
-  lastActivityDate?: any;
+  totalDistance: number; // Total distance in meters
+  totalMovingTime: number; // Total moving time in seconds
+  totalElevationGain: number; // Total elevation gain in meters
+  activitiesCount: number; // Total number of activities
+  cyclingDistance?: number; // Meters over CYCLING_TYPES; missing on stats from before it was tracked
+  lastActivityDate?: TimestampValue; // Date of most recent activity
 }
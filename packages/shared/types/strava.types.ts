@@ -1,14 +1,59 @@
+import type { ActivityAntiCheat } from './anticheat.types';
+import type { PaginationData, TimestampValue } from './common.types';
+import type { XPCalculationResult } from './game.types';
+
+// Strava OAuth types
 export interface StravaAthlete {
   id: number;
   firstname: string;
   lastname: string;
+  profile?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  sex?: string;
+  summit?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface StravaTokenExchangeResponse {
+  token_type: string;
+  expires_at: number;
+  expires_in: number;
+  refresh_token: string;
+  access_token: string;
+  athlete: StravaAthlete;
 }
 
-export interface StravaAuthData {
-  status: string;
+export interface StravaRefreshTokenResponse {
+  token_type: string;
+  expires_at: number;
+  expires_in: number;
+  refresh_token: string;
+  access_token: string;
+}
+
+export interface StravaTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  lastUpdated: TimestampValue;
+}
+
+export interface ExchangeCodeData {
+  code: string;
+}
+
+export interface ExchangeCodeResponse {
+  status: 'success';
   data: {
-    athlete: StravaAthlete;
-    access_token: string;
+    athlete: {
+      id: number;
+      firstname: string;
+      lastname: string;
+    };
+    access_token: string; // For backward compatibility
   };
 }
 
@@ -19,6 +64,18 @@ export interface MockStravaOAuthResponse {
   };
 }
 
+// App-wide Strava API usage, as last reported by Strava's rate limit headers
+export interface StravaRateLimitUsage {
+  shortTermLimit: number; // Requests per 15 minutes
+  shortTermUsage: number;
+  dailyLimit: number; // Requests per UTC day
+  dailyUsage: number;
+  windowStart: number; // Unix timestamp of the 15-minute window the usage was reported in
+  day: string; // UTC day (YYYY-MM-DD) the usage was reported on
+  updatedAt: TimestampValue;
+}
+
+// Strava Activity types
 export interface StravaActivityMap {
   id: string;
   summary_polyline: string;
@@ -52,10 +109,113 @@ export interface StravaActivity {
   manual: boolean;
   private: boolean;
   map?: StravaActivityMap;
-  xpEarned?: number; // XP earned from this activity
+  xpEarned?: number; // Custom field for XP earned
+  xpBreakdown?: XPCalculationResult; // Custom field for how xpEarned was composed
+  antiCheat?: ActivityAntiCheat; // Custom field for anti-cheat results
+  duplicateOf?: number; // Custom field, ID of the activity this one duplicates (counted or awaiting review)
+}
+
+export interface StoredActivity extends StravaActivity {
+  userId: string;
+  fetchedAt: TimestampValue;
+  updatedAt: TimestampValue;
+}
+
+// fetchStravaActivities pages through Strava itself, so it keeps page numbers
+export type SyncActivitiesData = PaginationData;
+
+export interface SyncActivitiesResponse {
+  status: 'success';
+  activities: StravaActivity[];
+}
+
+export interface GetActivitiesData {
+  cursor?: string; // nextCursor from the previous page; omitted for the first page
+  perPage?: number;
 }
 
 export interface GetActivitiesResponse {
   status: 'success';
   activities: StravaActivity[];
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface GetActivityByIdData {
+  activityId: number;
+}
+
+export interface GetActivityByIdResponse {
+  status: 'success';
+  activity: StravaActivity;
+  isNew: boolean; // Whether this was a new activity or already existed
+}
+
+// Strava history backfill types
+export type StravaBackfillStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface StravaBackfillProgress {
+  status: StravaBackfillStatus;
+  activitiesFetched: number;
+  activitiesStored: number; // Newly stored, not counting activities synced before
+  progress: number; // Share of the history's time span walked so far, 0 to 1
+  lastActivityDate?: string; // ISO 8601 start of the newest activity walked so far
+  error?: string; // Last error, kept until the next page succeeds
+}
+
+// Per-user backfill job, stored by user ID
+export interface StravaBackfill extends Omit<StravaBackfillProgress, 'progress'> {
+  userId: string;
+  before: number; // Unix timestamp; later activities arrive by webhook or sync
+  after: number; // Unix timestamp cursor: start of the newest activity walked so far
+  oldestActivityDate?: string; // ISO 8601 start of the athlete's oldest activity
+  pagesFetched: number;
+  failures: number; // Consecutive failed runs
+  leaseExpiresAt?: TimestampValue; // Set while a run holds the job
+  createdAt: TimestampValue;
+  updatedAt: TimestampValue;
+  completedAt?: TimestampValue;
+}
+
+export interface StravaBackfillResponse {
+  status: 'success';
+  backfill: StravaBackfillProgress | null; // Null until a backfill is started
+}
+
+// Strava Webhook types
+export interface StravaWebhookEvent {
+  object_id: number; // activity ID OR athlete ID
+  object_type: string; // "activity" OR "athlete"
+  aspect_type: string; // "create", "update" OR "delete"
+  owner_id: number; // Strava athlete ID
+  event_time: number; // Unix timestamp
+  subscription_id: number;
+  updates?: StravaWebhookUpdates;
+}
+
+export interface StravaWebhookUpdates {
+  title?: string;
+  type?: string;
+  private?: string; // "true" or "false"
+  authorized?: string; // Athlete events only: "false" when the athlete revoked access
+}
+
+// The app's push subscription, stored when created; events from any other are rejected
+export interface StravaWebhookSubscription {
+  id: number;
+  callbackUrl?: string; // Unknown for subscriptions created before it was stored
+  createdAt: TimestampValue;
+}
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'dead_letter';
+
+// A received webhook event, stored by (object_type, object_id, aspect_type, event_time)
+export interface StoredWebhookEvent {
+  event: StravaWebhookEvent;
+  status: WebhookEventStatus;
+  attempts: number; // Attempts started so far, counted when a worker claims the event
+  nextAttemptAt: TimestampValue; // While processing, when another worker may take over
+  lastError?: string;
+  receivedAt: TimestampValue;
+  processedAt?: TimestampValue;
+  expireAt?: TimestampValue; // Processed events are deleted by a TTL policy after this
 }
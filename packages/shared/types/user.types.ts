@@ -1,6 +1,11 @@
+import type { TimestampValue } from './common.types';
 import type { GameProfile } from './game.types';
 import type { UserStats } from './stats.types';
 
+// User profile types
+// 'user' when disconnected in the app, 'revoked' when access was revoked from Strava's settings
+export type StravaDisconnectReason = 'user' | 'revoked';
+
 export interface UserProfile {
   uid: string;
   email: string;
@@ -9,10 +14,22 @@ export interface UserProfile {
   stravaConnected: boolean;
   stravaFirstname?: string;
   stravaLastname?: string;
+  stravaDisconnectReason?: StravaDisconnectReason; // Cleared on reconnect
+  stravaDisconnectedAt?: TimestampValue;
   stats?: UserStats;
   game?: GameProfile;
-  createdAt: any;
-  updatedAt: any;
+  maxHeartRate?: number; // bpm, enables the heart-rate effort bonus
+  restingHeartRate?: number; // bpm
+  ftp?: number; // Functional threshold power, watts
+  createdAt: TimestampValue;
+  updatedAt: TimestampValue;
+}
+
+export interface UpdateProfileData {
+  displayName?: string;
+  maxHeartRate?: number | null; // null clears the setting
+  restingHeartRate?: number | null; // null clears the setting
+  ftp?: number | null; // null clears the setting
 }
 
 export interface ProfileResponse {
@@ -0,0 +1,12 @@
+import type { TimestampValue } from '../types';
+
+/**
+ * Converts a Firestore timestamp to a Date, whether it is an SDK Timestamp or was
+ * serialized through a callable response
+ */
+export function toDate(value: TimestampValue): Date {
+  if ('toDate' in value) {
+    return value.toDate();
+  }
+  return new Date(value._seconds * 1000 + value._nanoseconds / 1e6);
+}